@@ -0,0 +1,128 @@
+/**
+ * Generates the granular `./books/*` ES modules from the data tree.
+ *
+ * For every book, chapter and verse this writes a JavaScript module and its
+ * type declaration into dist/books:
+ *
+ *   dist/books/<Book>.js          default export: VerseData[][] (chapters)
+ *   dist/books/<Book>/<c>.js      default export: VerseData[] (same as loadChapter)
+ *   dist/books/<Book>/<c>/<v>.js  default export: VerseData (same as loadVerse)
+ *
+ * Chapter and book modules import their verse modules, so bundlers only pull
+ * in the passages that are actually used. Book module names are the English
+ * book names with spaces removed (e.g. "Genesis", "1Samuel").
+ *
+ * Usage: npx tsx scripts/generate-books.ts
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { join, dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { listBooks, listChapters, loadChapter } from '../src/source.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT_DIR = join(__dirname, '..');
+const BOOKS_DIR = join(ROOT_DIR, 'dist', 'books');
+
+const TYPE_IMPORT = "import type { VerseData } from '@metaxia/scriptures-core';";
+
+/**
+ * Module name for a book ("1 Samuel" -> "1Samuel").
+ */
+function toModuleName(book: string): string {
+  return book.replace(/\s+/g, '');
+}
+
+function renderVerseModule(data: unknown): { js: string; dts: string } {
+  return {
+    js: `export default ${JSON.stringify(data)};\n`,
+    dts: `${TYPE_IMPORT}\ndeclare const verse: VerseData;\nexport default verse;\n`,
+  };
+}
+
+function renderChapterModule(chapter: number, verseCount: number): { js: string; dts: string } {
+  const imports: string[] = [];
+  const names: string[] = [];
+  for (let verse = 1; verse <= verseCount; verse++) {
+    imports.push(`import v${verse} from './${chapter}/${verse}.js';`);
+    names.push(`v${verse}`);
+  }
+
+  return {
+    js: `${imports.join('\n')}\n\nexport default [${names.join(', ')}];\n`,
+    dts: `${TYPE_IMPORT}\ndeclare const chapter: VerseData[];\nexport default chapter;\n`,
+  };
+}
+
+function renderBookModule(moduleName: string, chapterCount: number): { js: string; dts: string } {
+  const imports: string[] = [];
+  const names: string[] = [];
+  for (let chapter = 1; chapter <= chapterCount; chapter++) {
+    imports.push(`import c${chapter} from './${moduleName}/${chapter}.js';`);
+    names.push(`c${chapter}`);
+  }
+
+  return {
+    js: `${imports.join('\n')}\n\nexport default [${names.join(', ')}];\n`,
+    dts: `${TYPE_IMPORT}\ndeclare const book: VerseData[][];\nexport default book;\n`,
+  };
+}
+
+async function writeModule(basePath: string, module: { js: string; dts: string }): Promise<void> {
+  await mkdir(dirname(basePath), { recursive: true });
+  await writeFile(`${basePath}.js`, module.js, 'utf-8');
+  await writeFile(`${basePath}.d.ts`, module.dts, 'utf-8');
+}
+
+/**
+ * Load every chapter of a book listed in the versification table. A chapter
+ * that cannot be loaded fails the generation rather than truncating the book.
+ */
+export async function loadBook(book: string): Promise<unknown[][]> {
+  const chapters: unknown[][] = [];
+  for (const chapter of await listChapters(book)) {
+    chapters.push(await loadChapter(book, chapter));
+  }
+  return chapters;
+}
+
+async function main(): Promise<void> {
+  console.log('Generating granular book modules');
+  console.log('================================\n');
+
+  try {
+    let verseTotal = 0;
+
+    for (const book of listBooks()) {
+      const moduleName = toModuleName(book);
+      const chapters = await loadBook(book);
+      if (chapters.length === 0) {
+        throw new Error(`No chapters found for ${book}`);
+      }
+
+      for (let c = 0; c < chapters.length; c++) {
+        const chapter = c + 1;
+        const verses = chapters[c];
+        for (let v = 0; v < verses.length; v++) {
+          await writeModule(join(BOOKS_DIR, moduleName, String(chapter), String(v + 1)), renderVerseModule(verses[v]));
+        }
+        await writeModule(join(BOOKS_DIR, moduleName, String(chapter)), renderChapterModule(chapter, verses.length));
+        verseTotal += verses.length;
+      }
+
+      await writeModule(join(BOOKS_DIR, moduleName), renderBookModule(moduleName, chapters.length));
+      console.log(`  ✓ ${book} (${chapters.length} chapters)`);
+    }
+
+    console.log(`\n✓ Generated modules for ${verseTotal} verses in ${BOOKS_DIR}`);
+  } catch (error) {
+    console.error('Generation failed:', error);
+    process.exit(1);
+  }
+}
+
+// Only run when executed directly, so tests can import the loader
+if (process.argv[1] && resolve(process.argv[1]) === __filename) {
+  main();
+}
@@ -4,14 +4,39 @@
  * Downloads the KJV OSIS XML from CrossWire GitLab and converts to JSON format.
  * Uses SAX-style event-based parsing to match the Python library approach.
  *
- * Usage: npx tsx scripts/import.ts
+ * Writes the packed per-book layout (see src/packed.ts). Pass --legacy to also
+ * write the one-file-per-verse layout.
+ *
+ * For offline and CI imports, --input reads a local OSIS file instead of
+ * downloading. The XML must match KJV_OSIS_SHA256, the checksum of the pinned
+ * download, unless --sha256 gives the checksum of a different source.
+ *
+ * Output depends only on the XML: line endings are normalized, packed books
+ * that the import no longer produces are removed, and the legacy per-verse
+ * tree is removed unless --legacy rewrites it (dropping verses the import no
+ * longer produces).
+ *
+ * Before writing, the import is compared with the existing data tree and a
+ * report of added, removed and changed verses and words is printed. Pass
+ * --dry-run to print the report without writing anything.
+ *
+ * Usage: npx tsx scripts/import.ts [--legacy] [--input <file>] [--sha256 <hex>] [--dry-run]
  */
 
-import { mkdir, writeFile, readFile } from 'fs/promises';
+import { mkdir, writeFile, readFile, readdir, rm } from 'fs/promises';
 import { existsSync } from 'fs';
-import { join, dirname } from 'path';
+import { createHash } from 'crypto';
+import { join, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
 import { SaxesParser } from 'saxes';
+import { PACKED_DIR, packBook, readPackedChapter } from '../src/packed.js';
+import { diffVerses, formatDiff, type DataDiff } from '../src/diff.js';
+import { STRONGS_CACHE, buildStrongsIndex } from '../src/strongs.js';
+import { SEARCH_CACHE, buildSearchIndex } from '../src/search.js';
+import { WORD_STATS_CACHE, buildWordStats } from '../src/stats.js';
+import { parseLemma } from '../src/lemma.js';
+import { splitPunctuation, joinWords } from '../src/tokens.js';
+import { getTestament, type WordLemma } from '../src/source.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -20,15 +45,32 @@ const ROOT_DIR = join(__dirname, '..');
 const KJV_OSIS_URL =
   'https://gitlab.com/crosswire-bible-society/kjv/-/raw/d490be7e34762deb2c76cb2c1306d4808e27890d/kjvfull.xml';
 
+/**
+ * SHA-256 (hex) of the file at KJV_OSIS_URL. Imports without --sha256 must
+ * match it; an empty value refuses them until the checksum is committed.
+ */
+const KJV_OSIS_SHA256 = '';
+
 const SOURCE_DIR = join(ROOT_DIR, 'source');
 const DATA_DIR = join(ROOT_DIR, 'data', 'crosswire-KJV');
+const PACKED_PATH = join(DATA_DIR, PACKED_DIR);
+const CACHE_DIR = join(ROOT_DIR, 'cache');
 
 interface WordEntry {
   position: number;
+  /** The bare word, without punctuation */
   text: string;
+  /** Punctuation before the word */
+  leading?: string;
+  /** Punctuation after the word */
+  trailing?: string;
+  /** Whitespace before the word, when not the default (see src/tokens.ts) */
+  space?: string;
   lemma?: string | null;
   morph?: string | null;
   strongs?: string[];
+  /** Strong's numbers paired with their lemma forms */
+  lemmas?: WordLemma[];
   metadata?: Record<string, unknown>;
   /** Raw source data preserved for reference */
   source?: {
@@ -41,22 +83,56 @@ interface WordEntry {
   };
 }
 
+interface NoteEntry {
+  /** Note type attribute (e.g. "translation", "study") */
+  type: string | null;
+  /** Position of the word the note follows (0 = before the first word) */
+  position: number;
+  /** Note text (excluding the catch word) with whitespace collapsed */
+  text: string;
+  /** Text of the <catchWord> the note comments on */
+  catchWord?: string;
+  n?: string;
+  osisRef?: string;
+  osisID?: string;
+}
+
+interface BreakEntry {
+  /** Paragraph start (pilcrow or <p>), stanza start (<lg>) or poetic line start (<l>) */
+  type: 'paragraph' | 'stanza' | 'line';
+  /** Position of the first word after the break */
+  position: number;
+  /** Printed marker, e.g. "¶" */
+  marker?: string;
+  /** Line indentation level */
+  level?: number;
+}
+
 interface VerseData {
   text: string;
   words: WordEntry[];
+  notes?: NoteEntry[];
+  breaks?: BreakEntry[];
   metadata?: {
     has_colophon?: boolean;
     colophon_word_range?: [number, number];
     colophon_type?: string;
+    has_quotation?: boolean;
+    has_words_of_christ?: boolean;
+    speakers?: string[];
   };
 }
 
 interface ParsedWord {
   position: number;
   text: string;
+  leading?: string;
+  trailing?: string;
+  space?: string;
   lemma: string | null;
   morph: string | null;
   strongs: string[] | null;
+  lemmas: WordLemma[] | null;
   metadata: Record<string, unknown>;
   /** Raw source attributes preserved */
   source: {
@@ -72,45 +148,85 @@ interface ParsedVerse {
   number: number;
   text: string;
   words: ParsedWord[];
+  notes: NoteEntry[];
+  breaks: BreakEntry[];
   colophonWords?: ParsedWord[];
 }
 
+interface VerseRecord {
+  book: string;
+  chapter: number;
+  verse: number;
+  data: VerseData;
+}
+
+type HeadingLevel = 'book' | 'chapter' | 'verse';
+
+interface HeadingEntry {
+  /** What the heading precedes: the whole book, a chapter, or a later verse */
+  level: HeadingLevel;
+  /** Title type attribute (e.g. "main", "psalm", "acrostic") */
+  type: string | null;
+  /** Whether the title is part of the canonical text (e.g. Psalm superscriptions) */
+  canonical: boolean;
+  text: string;
+  /** Chapter for chapter- and verse-level headings */
+  chapter?: number;
+  /** Verse for verse-level headings */
+  verse?: number;
+}
+
+interface ParsedHeading extends HeadingEntry {
+  book: string;
+}
+
+interface ParsedOsis {
+  verses: ParsedVerse[];
+  headings: ParsedHeading[];
+}
+
+interface QuoteContext {
+  who: string | null;
+  sID?: string;
+}
+
 interface ColophonData {
   book: string;
   words: ParsedWord[];
 }
 
-const STRONGS_RE = /(?:strongs?:)?([HGhg]?\d{3,5})/g;
-
-function extractStrongs(value: string | null): string[] {
-  if (!value) return [];
-  const results: string[] = [];
-  let match;
-  STRONGS_RE.lastIndex = 0;
+/**
+ * Parse a word's lemma attribute. Strong's numbers without a prefix take the
+ * testament of the book they occur in.
+ */
+function extractLemmas(value: string | null, book: string | null): WordLemma[] {
+  return book ? parseLemma(value, getTestament(book)) : [];
+}
 
-  while ((match = STRONGS_RE.exec(value)) !== null) {
-    const token = match[1];
-    let prefix = '';
-    if (token[0] && 'HGhg'.includes(token[0])) {
-      prefix = token[0].toUpperCase();
-    }
-    const digits = token.match(/\d{3,5}/);
-    if (!digits) continue;
-    // Default to Hebrew for this source (it's English KJV but has Hebrew/Greek refs)
-    if (!prefix) prefix = 'H';
-    results.push(`${prefix}${parseInt(digits[0], 10)}`);
+/**
+ * Get the value of a `--name value` or `--name=value` argument.
+ */
+function getArg(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const inline = args.find(arg => arg.startsWith(`--${name}=`));
+  if (inline) return inline.slice(name.length + 3);
+
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith('--')) {
+    throw new Error(`Missing value for --${name}`);
   }
-
-  return results;
+  return value;
 }
 
-async function downloadXml(): Promise<string> {
+async function downloadXml(): Promise<Buffer> {
   await mkdir(SOURCE_DIR, { recursive: true });
   const xmlPath = join(SOURCE_DIR, 'kjvfull.xml');
 
   if (existsSync(xmlPath)) {
     console.log('  → Using cached XML file');
-    return await readFile(xmlPath, 'utf-8');
+    return await readFile(xmlPath);
   }
 
   console.log('  → Downloading KJV OSIS XML from CrossWire...');
@@ -122,15 +238,48 @@ async function downloadXml(): Promise<string> {
     throw new Error(`Failed to download: ${response.status} ${response.statusText}`);
   }
 
-  const xml = await response.text();
-  await writeFile(xmlPath, xml, 'utf-8');
+  const xml = Buffer.from(await response.arrayBuffer());
+  await writeFile(xmlPath, xml);
   console.log('  ✓ Downloaded and cached XML');
 
   return xml;
 }
 
-function parseOsis(xml: string): ParsedVerse[] {
+/**
+ * Read the OSIS XML from a local file, or download it when no file is given.
+ */
+async function loadXml(inputPath: string | undefined): Promise<Buffer> {
+  if (!inputPath) return downloadXml();
+
+  console.log(`  → Reading ${inputPath}`);
+  try {
+    return await readFile(inputPath);
+  } catch (error) {
+    throw new Error(`Cannot read OSIS input '${inputPath}': ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Check the XML against an expected SHA-256 (hex) and return its actual checksum.
+ */
+function verifyChecksum(xml: Buffer, expected: string): string {
+  const actual = createHash('sha256').update(xml).digest('hex');
+  if (!expected) {
+    throw new Error(`No SHA-256 pinned for ${KJV_OSIS_URL}; got ${actual} (pass --sha256 to import it)`);
+  }
+  if (actual !== expected.trim().toLowerCase()) {
+    throw new Error(`SHA-256 mismatch: expected ${expected}, got ${actual} (pass --sha256 to import a different source)`);
+  }
+  return actual;
+}
+
+/**
+ * Parse OSIS XML into verses (with colophons attached to the last verse of
+ * their book) and headings.
+ */
+export function parseOsis(xml: string): ParsedOsis {
   const verses: ParsedVerse[] = [];
+  const headings: ParsedHeading[] = [];
   const colophons: ColophonData[] = [];
   const parser = new SaxesParser();
 
@@ -139,6 +288,58 @@ function parseOsis(xml: string): ParsedVerse[] {
   let pos = 1;
   let noteDepth = 0;
 
+  // Note tracking (only notes inside verses are kept)
+  let notes: NoteEntry[] = [];
+  let currentNote: NoteEntry | null = null;
+  let inCatchWord = false;
+
+  // Title tracking: titles are attached to the verse that follows them
+  let book: string | null = null;
+  let chapterNum: number | null = null;
+  let chapterHasWords = false;
+  let titleDepth = 0;
+  let currentTitle: ParsedHeading | null = null;
+  let pendingTitles: ParsedHeading[] = [];
+
+  /**
+   * Attach pending titles to the verse they precede.
+   */
+  function resolvePendingTitles(target: { book: string; chapter: number; number: number }): void {
+    for (const title of pendingTitles) {
+      if (title.level !== 'book') title.chapter = target.chapter;
+      if (title.level === 'verse') title.verse = target.number;
+      headings.push(title);
+    }
+    pendingTitles = [];
+  }
+
+  // Paragraph and poetry breaks; breaks outside a verse wait for the next one
+  let breaks: BreakEntry[] = [];
+  let pendingBreaks: BreakEntry[] = [];
+
+  function addBreak({ type, ...rest }: Omit<BreakEntry, 'position'>): void {
+    if (current) {
+      breaks.push({ type, position: pos, ...rest });
+    } else {
+      pendingBreaks.push({ type, position: 1, ...rest });
+    }
+  }
+
+  // Open <q> quotations, outermost first (milestone quotes may span verses)
+  const quoteStack: QuoteContext[] = [];
+
+  /**
+   * Tag word metadata with the current quotation context.
+   */
+  function applyQuoteContext(metadata: Record<string, unknown>): void {
+    if (quoteStack.length === 0) return;
+
+    const speaker = [...quoteStack].reverse().find(q => q.who)?.who;
+    metadata.quote_depth = quoteStack.length;
+    if (speaker) metadata.speaker = speaker;
+    if (quoteStack.some(q => q.who === 'Jesus')) metadata.words_of_christ = true;
+  }
+
   // Colophon tracking
   let inColophon = false;
   let colophonBook: string | null = null;
@@ -150,29 +351,89 @@ function parseOsis(xml: string): ParsedVerse[] {
   let inTransChange = false;
   let wordText = '';
   let wordAttrs: Record<string, string> = {};
+  // Divine name (<divineName>) tracking: depth of open elements, and the
+  // words of the current <w> that were inside one
+  let divineNameDepth = 0;
+  let wordDivineText = '';
   let transChangeText = '';
   let transChangeAttrs: Record<string, string> = {};
 
-  function processTailText(text: string): void {
-    if (!text.trim() || !current || noteDepth > 0) return;
+  // Whitespace seen since the last word, and punctuation waiting for the next word
+  let pendingSpace = false;
+  let pendingLeading = '';
+  let pendingLeadingSpace = false;
 
-    const cleaned = text.replace(/\//g, '').trim();
-    for (const piece of cleaned.split(/\s+/).filter(Boolean)) {
-      // Check if it's just punctuation - attach to previous word
-      if (/^[.,;:!?]+$/.test(piece) && words.length > 0) {
-        words[words.length - 1].text += piece;
+  function resetSpacing(): void {
+    pendingSpace = false;
+    pendingLeading = '';
+    pendingLeadingSpace = false;
+  }
+
+  /**
+   * Add one piece of text as a word. Punctuation is split off into `leading`
+   * and `trailing`; a piece that is only punctuation attaches to the previous
+   * word, or to the next word when it opens a bracket or quotation.
+   */
+  function addPiece(piece: string, target: ParsedWord[], create: (text: string, piece: string) => ParsedWord): void {
+    const spaced = pendingSpace;
+    pendingSpace = false;
+
+    const { leading, text, trailing } = splitPunctuation(piece);
+    const previous = target[target.length - 1];
+
+    if (!text) {
+      const opening = /^[([{“‘«]/.test(piece) || (spaced && /^["']/.test(piece));
+      if (previous && !opening) {
+        previous.trailing = (previous.trailing ?? '') + piece;
       } else {
-        words.push({
-          position: pos++,
-          text: piece,
-          lemma: null,
-          morph: null,
-          strongs: null,
-          metadata: {},
-          source: {},
-        });
+        if (!pendingLeading) pendingLeadingSpace = spaced;
+        pendingLeading += piece;
       }
+      return;
+    }
+
+    const word = create(text, piece);
+    if (pendingLeading || leading) word.leading = pendingLeading + leading;
+    if (trailing) word.trailing = trailing;
+    if (target.length > 0 && !(pendingLeading ? pendingLeadingSpace : spaced)) word.space = '';
+    pendingLeading = '';
+    target.push(word);
+  }
+
+  /**
+   * Add whitespace-separated text as words, remembering whitespace so the
+   * next word's spacing is recorded.
+   */
+  function addText(raw: string, target: ParsedWord[], create: (text: string, piece: string) => ParsedWord): void {
+    const pieceRe = /(\s*)(\S+)/g;
+    let end = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pieceRe.exec(raw))) {
+      if (match[1]) pendingSpace = true;
+      addPiece(match[2], target, create);
+      end = pieceRe.lastIndex;
     }
+    if (/\s/.test(raw.slice(end))) pendingSpace = true;
+  }
+
+  function processTailText(text: string): void {
+    if (!current || noteDepth > 0) return;
+
+    addText(text.replace(/\//g, ''), words, piece => {
+      const metadata: Record<string, unknown> = {};
+      applyQuoteContext(metadata);
+      if (divineNameDepth > 0) metadata.divine_name = true;
+      return {
+        position: pos++,
+        text: piece,
+        lemma: null,
+        morph: null,
+        strongs: null,
+        lemmas: null,
+        metadata,
+        source: {},
+      };
+    });
   }
 
   parser.on('opentag', (tag) => {
@@ -181,7 +442,11 @@ function parseOsis(xml: string): ParsedVerse[] {
     if (name === 'div') {
       const divType = tag.attributes.type as string | undefined;
       const osisId = tag.attributes.osisID as string | undefined;
-      if (divType === 'colophon' && osisId) {
+      if (divType === 'book' && osisId) {
+        book = osisId;
+        chapterNum = null;
+        pendingTitles = [];
+      } else if (divType === 'colophon' && osisId) {
         // Colophon osisID is like "Rom.c" - extract book name
         const bookMatch = osisId.match(/^(\w+)\./);
         if (bookMatch) {
@@ -189,8 +454,16 @@ function parseOsis(xml: string): ParsedVerse[] {
           colophonBook = bookMatch[1];
           colophonWords = [];
           colophonPos = 1;
+          resetSpacing();
         }
       }
+    } else if (name === 'chapter') {
+      const osisId = tag.attributes.osisID as string | undefined;
+      const chapterMatch = osisId?.match(/\.(\d+)$/);
+      if (chapterMatch && !tag.attributes.eID) {
+        chapterNum = parseInt(chapterMatch[1], 10);
+        chapterHasWords = false;
+      }
     } else if (name === 'verse') {
       const osisId = tag.attributes.osisID as string | undefined;
       const sId = tag.attributes.sID as string | undefined;
@@ -198,20 +471,56 @@ function parseOsis(xml: string): ParsedVerse[] {
       if (osisId && !current) {
         const parts = osisId.split('.');
         if (parts.length === 3) {
-          const [book, chap, num] = parts;
-          current = { book, chapter: parseInt(chap, 10), number: parseInt(num, 10) };
+          const [verseBook, chap, num] = parts;
+          current = { book: verseBook, chapter: parseInt(chap, 10), number: parseInt(num, 10) };
           words = [];
+          notes = [];
+          breaks = pendingBreaks;
+          pendingBreaks = [];
           pos = 1;
+          resetSpacing();
+          resolvePendingTitles(current);
         }
       }
-    } else if (name === 'w' && (current || inColophon) && noteDepth === 0) {
+    } else if (name === 'divineName' && noteDepth === 0) {
+      divineNameDepth++;
+    } else if (name === 'milestone' && noteDepth === 0 && titleDepth === 0) {
+      const type = tag.attributes.type as string | undefined;
+      const marker = tag.attributes.marker as string | undefined;
+      if (type === 'x-p' || type === 'pilcrow' || marker === '¶') {
+        addBreak({ type: 'paragraph', ...(marker && { marker }) });
+      }
+    } else if (name === 'p' && noteDepth === 0 && titleDepth === 0 && !tag.attributes.eID) {
+      addBreak({ type: 'paragraph' });
+    } else if (name === 'lg' && noteDepth === 0 && titleDepth === 0 && !tag.attributes.eID) {
+      addBreak({ type: 'stanza' });
+    } else if (name === 'l' && noteDepth === 0 && titleDepth === 0 && !tag.attributes.eID) {
+      const level = tag.attributes.level as string | undefined;
+      addBreak({ type: 'line', ...(level && { level: parseInt(level, 10) }) });
+    } else if (name === 'title' && noteDepth === 0 && !inColophon) {
+      titleDepth++;
+      if (titleDepth === 1 && book) {
+        let level: HeadingLevel = 'verse';
+        if (chapterNum === null && !current) level = 'book';
+        else if (!chapterHasWords && (!current || pos === 1)) level = 'chapter';
+
+        currentTitle = {
+          book,
+          level,
+          type: (tag.attributes.type as string | undefined) || null,
+          canonical: tag.attributes.canonical === 'true',
+          text: '',
+        };
+      }
+    } else if (name === 'w' && (current || inColophon) && noteDepth === 0 && titleDepth === 0) {
       inWord = true;
       wordText = '';
+      wordDivineText = '';
       wordAttrs = {};
       for (const [k, v] of Object.entries(tag.attributes)) {
         wordAttrs[k] = String(v);
       }
-    } else if (name === 'transChange' && (current || inColophon) && noteDepth === 0) {
+    } else if (name === 'transChange' && (current || inColophon) && noteDepth === 0 && titleDepth === 0) {
       inTransChange = true;
       transChangeText = '';
       transChangeAttrs = {};
@@ -220,14 +529,53 @@ function parseOsis(xml: string): ParsedVerse[] {
       }
     } else if (name === 'note' && (current || inColophon)) {
       noteDepth++;
+      if (noteDepth === 1 && current) {
+        const attrs = tag.attributes as Record<string, string>;
+        currentNote = {
+          type: attrs.type || null,
+          position: pos - 1,
+          text: '',
+        };
+        if (attrs.n) currentNote.n = attrs.n;
+        if (attrs.osisRef) currentNote.osisRef = attrs.osisRef;
+        if (attrs.osisID) currentNote.osisID = attrs.osisID;
+      }
+    } else if (name === 'catchWord' && currentNote) {
+      inCatchWord = true;
+      currentNote.catchWord = '';
+    } else if (name === 'q' && noteDepth === 0) {
+      const eId = tag.attributes.eID as string | undefined;
+      if (eId) {
+        // Milestone end: close the matching milestone start
+        const index = quoteStack.map(q => q.sID).lastIndexOf(eId);
+        if (index !== -1) quoteStack.splice(index, 1);
+      } else {
+        quoteStack.push({
+          who: (tag.attributes.who as string | undefined) || null,
+          sID: tag.attributes.sID as string | undefined,
+        });
+      }
     }
   });
 
   parser.on('text', (text) => {
-    if (noteDepth > 0) return;
+    if (noteDepth > 0) {
+      if (currentNote && inCatchWord) {
+        currentNote.catchWord += text;
+      } else if (currentNote) {
+        currentNote.text += text;
+      }
+      return;
+    }
+
+    if (titleDepth > 0) {
+      if (currentTitle) currentTitle.text += text;
+      return;
+    }
 
     if (inWord) {
       wordText += text;
+      if (divineNameDepth > 0) wordDivineText += text;
     } else if (inTransChange) {
       transChangeText += text;
     } else if (current) {
@@ -256,9 +604,11 @@ function parseOsis(xml: string): ParsedVerse[] {
 
       // End of verse: either eID marker or closing simple verse tag
       if (current && (eId || (osisId && !sId))) {
-        let text = words.map(w => w.text).join(' ');
-        // Clean up punctuation spacing
-        text = text.replace(/\s+([,.;:!?])/g, '$1');
+        const text = joinWords(words);
+
+        // Breaks after the last word belong to the next verse
+        pendingBreaks = breaks.filter(b => b.position > words.length).map(b => ({ ...b, position: 1 }));
+        breaks = breaks.filter(b => b.position <= words.length);
 
         verses.push({
           book: current.book,
@@ -266,17 +616,21 @@ function parseOsis(xml: string): ParsedVerse[] {
           number: current.number,
           text,
           words,
+          notes,
+          breaks,
         });
+        if (words.length > 0) chapterHasWords = true;
         current = null;
       }
     } else if (name === 'w' && inWord && (current || inColophon) && noteDepth === 0) {
       inWord = false;
-      const wText = wordText.replace(/\//g, '').trim();
+      const wText = wordText.replace(/\//g, '');
 
-      if (wText) {
+      if (wText.trim()) {
         const lemma = wordAttrs.lemma || null;
         const morph = wordAttrs.morph || null;
-        const strongs = lemma ? extractStrongs(lemma) : null;
+        const lemmas = extractLemmas(lemma, book);
+        const strongs = lemmas.map(entry => entry.strongs);
 
         // Build metadata from remaining attributes
         const metadata: Record<string, unknown> = {};
@@ -290,6 +644,8 @@ function parseOsis(xml: string): ParsedVerse[] {
         if (inColophon) {
           metadata.colophon = true;
           metadata.colophon_type = 'subscription';
+        } else {
+          applyQuoteContext(metadata);
         }
 
         // Build source object to preserve raw attributes
@@ -301,36 +657,56 @@ function parseOsis(xml: string): ParsedVerse[] {
           source.attrs = { ...wordAttrs };
         }
 
+        // Pieces inside <divineName> (within or around this <w>)
+        const divinePieces = new Set(wordDivineText.replace(/\//g, '').split(/\s+/).filter(Boolean));
+
         // Handle multi-word content (split on spaces)
-        for (const piece of wText.split(/\s+/).filter(Boolean)) {
+        const pieces: ParsedWord[] = [];
+        addText(wText, inColophon ? colophonWords : words, (text, piece) => {
+          const pieceMetadata = { ...metadata };
+          if (divineNameDepth > 0 || divinePieces.has(piece)) {
+            pieceMetadata.divine_name = true;
+          }
+
           const wordEntry: ParsedWord = {
             position: inColophon ? colophonPos++ : pos++,
-            text: piece,
+            text,
             lemma,
             morph,
-            strongs: strongs && strongs.length > 0 ? strongs : null,
-            metadata: Object.keys(metadata).length > 0 ? { ...metadata } : {},
+            strongs: strongs.length > 0 ? strongs : null,
+            lemmas: lemmas.length > 0 ? lemmas : null,
+            metadata: pieceMetadata,
             source,
           };
+          pieces.push(wordEntry);
+          return wordEntry;
+        });
 
-          if (inColophon) {
-            colophonWords.push(wordEntry);
-          } else {
-            words.push(wordEntry);
-          }
+        // Words of one <w> share a group, identified by its first position
+        if (pieces.length > 1) {
+          pieces.forEach((entry, i) => {
+            entry.metadata.group = pieces[0].position;
+            entry.metadata.group_index = i;
+          });
         }
       }
     } else if (name === 'transChange' && inTransChange && (current || inColophon) && noteDepth === 0) {
       inTransChange = false;
-      const tcText = transChangeText.trim();
+      const tcText = transChangeText.replace(/\s+/g, ' ');
 
-      if (tcText) {
+      if (tcText.trim()) {
         const metadata: Record<string, unknown> = Object.keys(transChangeAttrs).length > 0 ? { ...transChangeAttrs } : {};
 
         // Add colophon flag if we're in a colophon
         if (inColophon) {
           metadata.colophon = true;
           metadata.colophon_type = 'subscription';
+        } else {
+          applyQuoteContext(metadata);
+        }
+
+        if (divineNameDepth > 0) {
+          metadata.divine_name = true;
         }
 
         // Build source object for transChange elements
@@ -339,25 +715,53 @@ function parseOsis(xml: string): ParsedVerse[] {
           source.attrs = { ...transChangeAttrs };
         }
 
-        const wordEntry: ParsedWord = {
+        // The supplied words stay one entry, e.g. "shall be"
+        if (/^\s/.test(tcText)) pendingSpace = true;
+        addPiece(tcText.trim(), inColophon ? colophonWords : words, text => ({
           position: inColophon ? colophonPos++ : pos++,
-          text: tcText,
+          text,
           lemma: null,
           morph: null,
           strongs: null,
+          lemmas: null,
           metadata,
           source,
-        };
-
-        if (inColophon) {
-          colophonWords.push(wordEntry);
-        } else {
-          words.push(wordEntry);
-        }
+        }));
+        if (/\s$/.test(tcText)) pendingSpace = true;
       }
     } else if (name === 'note' && noteDepth > 0) {
       noteDepth--;
-    } else if (name === 'seg' && current && noteDepth === 0) {
+      if (noteDepth === 0 && currentNote) {
+        currentNote.text = currentNote.text.replace(/\s+/g, ' ').trim();
+        if (currentNote.catchWord !== undefined) {
+          currentNote.catchWord = currentNote.catchWord.replace(/\s+/g, ' ').trim();
+        }
+        notes.push(currentNote);
+        currentNote = null;
+      }
+    } else if (name === 'catchWord') {
+      inCatchWord = false;
+    } else if (name === 'divineName' && divineNameDepth > 0 && noteDepth === 0) {
+      divineNameDepth--;
+    } else if (name === 'title' && titleDepth > 0 && noteDepth === 0) {
+      titleDepth--;
+      if (titleDepth === 0 && currentTitle) {
+        currentTitle.text = currentTitle.text.replace(/\s+/g, ' ').trim();
+        if (currentTitle.text) {
+          if (current && pos === 1) {
+            // Title at the very start of a verse belongs to that verse
+            pendingTitles.push(currentTitle);
+            resolvePendingTitles(current);
+          } else {
+            pendingTitles.push(currentTitle);
+          }
+        }
+        currentTitle = null;
+      }
+    } else if (name === 'q' && noteDepth === 0 && !tag.isSelfClosing) {
+      // Container quote end (milestones are handled on open)
+      quoteStack.pop();
+    } else if (name === 'seg' && current && noteDepth === 0 && titleDepth === 0) {
       // Handle segment info - attach to previous word if present
       const segType = tag.attributes.type as string | undefined;
       if (words.length > 0 && segType) {
@@ -386,29 +790,32 @@ function parseOsis(xml: string): ParsedVerse[] {
     }
 
     if (lastVerse) {
-      // Renumber colophon words to continue from last verse word position
-      const startPos = lastVerse.words.length + 1;
-      for (let i = 0; i < colophon.words.length; i++) {
-        colophon.words[i].position = startPos + i;
+      // Renumber colophon words to continue from last verse word position;
+      // groups are identified by their first position, so move them too
+      const offset = lastVerse.words.length;
+      for (const word of colophon.words) {
+        word.position += offset;
+        if (typeof word.metadata.group === 'number') word.metadata.group += offset;
       }
       lastVerse.colophonWords = colophon.words;
     }
   }
 
-  return verses;
+  return { verses, headings };
 }
 
-async function saveVerse(verse: ParsedVerse): Promise<void> {
-  const verseDir = join(DATA_DIR, verse.book, String(verse.chapter));
-  await mkdir(verseDir, { recursive: true });
-
+export function toVerseData(verse: ParsedVerse): VerseData {
   // Convert main verse words to WordEntry format
   const wordEntries: WordEntry[] = verse.words.map(w => ({
     position: w.position,
     text: w.text,
+    leading: w.leading,
+    trailing: w.trailing,
+    space: w.space,
     lemma: w.lemma,
     morph: w.morph,
     strongs: w.strongs && w.strongs.length > 0 ? w.strongs : undefined,
+    lemmas: w.lemmas && w.lemmas.length > 0 ? w.lemmas : undefined,
     metadata: Object.keys(w.metadata || {}).length > 0 ? w.metadata : undefined,
     source: Object.keys(w.source || {}).length > 0 ? w.source : undefined,
   }));
@@ -425,9 +832,13 @@ async function saveVerse(verse: ParsedVerse): Promise<void> {
       wordEntries.push({
         position: w.position,
         text: w.text,
+        leading: w.leading,
+        trailing: w.trailing,
+        space: w.space,
         lemma: w.lemma,
         morph: w.morph,
         strongs: w.strongs && w.strongs.length > 0 ? w.strongs : undefined,
+        lemmas: w.lemmas && w.lemmas.length > 0 ? w.lemmas : undefined,
         metadata: Object.keys(w.metadata || {}).length > 0 ? w.metadata : undefined,
         source: Object.keys(w.source || {}).length > 0 ? w.source : undefined,
       });
@@ -439,6 +850,14 @@ async function saveVerse(verse: ParsedVerse): Promise<void> {
     words: wordEntries,
   };
 
+  if (verse.notes.length > 0) {
+    data.notes = verse.notes;
+  }
+
+  if (verse.breaks.length > 0) {
+    data.breaks = verse.breaks;
+  }
+
   // Add colophon metadata if present
   if (colophonStartPos !== undefined && colophonEndPos !== undefined) {
     data.metadata = {
@@ -448,11 +867,193 @@ async function saveVerse(verse: ParsedVerse): Promise<void> {
     };
   }
 
+  // Add quotation flags if any word is quoted
+  const quoted = verse.words.filter(w => w.metadata.quote_depth !== undefined);
+  if (quoted.length > 0) {
+    const speakers = [...new Set(quoted.map(w => w.metadata.speaker as string | undefined).filter(Boolean))] as string[];
+    data.metadata = {
+      ...data.metadata,
+      has_quotation: true,
+      ...(quoted.some(w => w.metadata.words_of_christ) && { has_words_of_christ: true }),
+      ...(speakers.length > 0 && { speakers }),
+    };
+  }
+
+  return data;
+}
+
+/**
+ * Verse counts of the existing data tree, from its versification table or,
+ * failing that, from the legacy directories.
+ */
+async function loadExistingVersification(): Promise<Record<string, number[]>> {
+  try {
+    return JSON.parse(await readFile(join(DATA_DIR, 'versification.json'), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  const versification: Record<string, number[]> = {};
+  if (!existsSync(DATA_DIR)) return versification;
+
+  for (const book of await readdir(DATA_DIR, { withFileTypes: true })) {
+    if (!book.isDirectory() || book.name === PACKED_DIR) continue;
+    const counts: number[] = [];
+    for (const chapter of await readdir(join(DATA_DIR, book.name))) {
+      const verses = (await readdir(join(DATA_DIR, book.name, chapter))).map(name => parseInt(name, 10));
+      counts[parseInt(chapter, 10) - 1] = Math.max(0, ...verses.filter(Number.isFinite));
+    }
+    versification[book.name] = Array.from(counts, count => count ?? 0);
+  }
+  return versification;
+}
+
+/**
+ * Read a book's verses from the existing data tree, packed or legacy.
+ */
+async function loadExistingBook(book: string, counts: number[]): Promise<VerseRecord[]> {
+  const records: VerseRecord[] = [];
+
+  for (let chapter = 1; chapter <= counts.length; chapter++) {
+    const packed = await readPackedChapter(PACKED_PATH, book, chapter).catch(() => null);
+    if (packed) {
+      packed.forEach((data, i) => records.push({ book, chapter, verse: i + 1, data }));
+      continue;
+    }
+
+    for (let verse = 1; verse <= counts[chapter - 1]; verse++) {
+      try {
+        const content = await readFile(join(DATA_DIR, book, String(chapter), `${verse}.json`), 'utf-8');
+        records.push({ book, chapter, verse, data: JSON.parse(content) });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Compare the import with the existing data tree, one book at a time.
+ */
+async function diffExisting(records: VerseRecord[]): Promise<DataDiff> {
+  const existing = await loadExistingVersification();
+  const byBook = groupByBook(records);
+  const books = [...byBook.keys(), ...Object.keys(existing).filter(book => !byBook.has(book))];
+  const diff: DataDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  for (const book of books) {
+    const before = existing[book] ? await loadExistingBook(book, existing[book]) : [];
+    const bookDiff = diffVerses(before, byBook.get(book) ?? []);
+    diff.added.push(...bookDiff.added);
+    diff.removed.push(...bookDiff.removed);
+    diff.changed.push(...bookDiff.changed);
+    diff.unchanged += bookDiff.unchanged;
+  }
+
+  return diff;
+}
+
+function groupByBook(records: VerseRecord[]): Map<string, VerseRecord[]> {
+  const byBook = new Map<string, VerseRecord[]>();
+  for (const record of records) {
+    const bookRecords = byBook.get(record.book) ?? [];
+    bookRecords.push(record);
+    byBook.set(record.book, bookRecords);
+  }
+  return byBook;
+}
+
+/**
+ * Remove packed books that the import did not produce, and the legacy
+ * per-verse tree: all of it, or only removed verses when it is rewritten.
+ */
+async function removeStale(records: VerseRecord[], removed: string[], keepLegacy: boolean): Promise<void> {
+  const books = new Set(records.map(record => record.book));
+
+  if (existsSync(PACKED_PATH)) {
+    for (const name of await readdir(PACKED_PATH)) {
+      const book = name.replace(/\.(jsonl|index\.json)$/, '');
+      if (book !== name && !books.has(book)) {
+        await rm(join(PACKED_PATH, name));
+      }
+    }
+  }
+
+  if (!keepLegacy) {
+    if (!existsSync(DATA_DIR)) return;
+    for (const entry of await readdir(DATA_DIR, { withFileTypes: true })) {
+      if (entry.isDirectory() && entry.name !== PACKED_DIR) {
+        await rm(join(DATA_DIR, entry.name), { recursive: true });
+      }
+    }
+    return;
+  }
+
+  for (const osisRef of removed) {
+    const [book, chapter, verse] = osisRef.split('.');
+    await rm(join(DATA_DIR, book, chapter, `${verse}.json`), { force: true });
+  }
+}
+
+async function saveVerse(verse: ParsedVerse): Promise<void> {
+  const verseDir = join(DATA_DIR, verse.book, String(verse.chapter));
+  await mkdir(verseDir, { recursive: true });
+
   const filePath = join(verseDir, `${verse.number}.json`);
-  await writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+  await writeFile(filePath, JSON.stringify(toVerseData(verse), null, 2), 'utf-8');
+}
+
+function toRecords(verses: ParsedVerse[]): VerseRecord[] {
+  return verses.map(v => ({ book: v.book, chapter: v.chapter, verse: v.number, data: toVerseData(v) }));
+}
+
+async function savePacked(records: VerseRecord[]): Promise<void> {
+  await mkdir(PACKED_PATH, { recursive: true });
+
+  for (const [book, bookRecords] of groupByBook(records)) {
+    const { content, index } = packBook(book, bookRecords);
+    await writeFile(join(PACKED_PATH, `${book}.jsonl`), content, 'utf-8');
+    await writeFile(join(PACKED_PATH, `${book}.index.json`), JSON.stringify(index), 'utf-8');
+  }
 }
 
-async function saveMetadata(): Promise<void> {
+async function saveVersification(records: VerseRecord[]): Promise<void> {
+  const versification: Record<string, number[]> = {};
+  for (const { book, chapter, verse } of records) {
+    const counts = (versification[book] ??= []);
+    counts[chapter - 1] = Math.max(counts[chapter - 1] ?? 0, verse);
+  }
+
+  await mkdir(DATA_DIR, { recursive: true });
+  await writeFile(
+    join(DATA_DIR, 'versification.json'),
+    JSON.stringify(versification, null, 2),
+    'utf-8'
+  );
+}
+
+async function saveHeadings(headings: ParsedHeading[]): Promise<void> {
+  const byBook: Record<string, HeadingEntry[]> = {};
+  for (const { book, ...heading } of headings) {
+    (byBook[book] ??= []).push(heading);
+  }
+
+  await mkdir(DATA_DIR, { recursive: true });
+  await writeFile(
+    join(DATA_DIR, 'headings.json'),
+    JSON.stringify(byBook, null, 2),
+    'utf-8'
+  );
+}
+
+async function saveCache(name: string, data: unknown): Promise<void> {
+  await mkdir(CACHE_DIR, { recursive: true });
+  await writeFile(join(CACHE_DIR, `${name}.json`), JSON.stringify(data), 'utf-8');
+}
+
+async function saveMetadata(checksum: string): Promise<void> {
   const metadata = {
     abbreviation: 'KJV',
     name: 'King James Version',
@@ -460,6 +1061,7 @@ async function saveMetadata(): Promise<void> {
     license: 'Public Domain',
     source: 'CrossWire Bible Society',
     urls: ['https://crosswire.org/', 'https://gitlab.com/crosswire-bible-society/kjv'],
+    source_sha256: checksum,
   };
 
   await mkdir(DATA_DIR, { recursive: true });
@@ -471,14 +1073,20 @@ async function saveMetadata(): Promise<void> {
 }
 
 async function main(): Promise<void> {
+  const writeLegacy = process.argv.includes('--legacy');
+  const dryRun = process.argv.includes('--dry-run');
+
   console.log('CrossWire KJV Importer');
   console.log('======================\n');
 
   try {
-    const xml = await downloadXml();
+    const source = await loadXml(getArg('input'));
+    const checksum = verifyChecksum(source, getArg('sha256') ?? KJV_OSIS_SHA256);
+    console.log(`  ✓ SHA-256 ${checksum}`);
+    const xml = source.toString('utf-8').replace(/\r\n?/g, '\n');
 
     console.log('  → Parsing OSIS XML...');
-    const verses = parseOsis(xml);
+    const { verses, headings } = parseOsis(xml);
     console.log(`  ✓ Found ${verses.length} verses`);
 
     if (verses.length === 0) {
@@ -486,17 +1094,51 @@ async function main(): Promise<void> {
       process.exit(1);
     }
 
-    console.log('  → Saving verses...');
-    let count = 0;
-    for (const verse of verses) {
-      await saveVerse(verse);
-      count++;
-      if (count % 1000 === 0) {
-        console.log(`    Saved ${count}/${verses.length} verses...`);
+    const records = toRecords(verses);
+
+    console.log('  → Comparing with existing data...');
+    const diff = await diffExisting(records);
+    console.log(`\n${formatDiff(diff)}\n`);
+
+    if (dryRun) {
+      console.log('Dry run: no files written');
+      return;
+    }
+
+    console.log('  → Removing stale files...');
+    await removeStale(records, diff.removed, writeLegacy);
+
+    console.log('  → Saving packed books...');
+    await savePacked(records);
+
+    if (writeLegacy) {
+      console.log('  → Saving legacy per-verse files...');
+      let count = 0;
+      for (const verse of verses) {
+        await saveVerse(verse);
+        count++;
+        if (count % 1000 === 0) {
+          console.log(`    Saved ${count}/${verses.length} verses...`);
+        }
       }
     }
 
-    await saveMetadata();
+    console.log('  → Saving versification table...');
+    await saveVersification(records);
+
+    console.log(`  → Saving ${headings.length} headings...`);
+    await saveHeadings(headings);
+
+    console.log("  → Building Strong's concordance cache...");
+    await saveCache(STRONGS_CACHE, buildStrongsIndex(records));
+
+    console.log('  → Building search index...');
+    await saveCache(SEARCH_CACHE, buildSearchIndex(records));
+
+    console.log('  → Building word statistics...');
+    await saveCache(WORD_STATS_CACHE, buildWordStats(records));
+
+    await saveMetadata(checksum);
 
     console.log(`\n✓ Successfully imported ${verses.length} verses to ${DATA_DIR}`);
   } catch (error) {
@@ -505,4 +1147,7 @@ async function main(): Promise<void> {
   }
 }
 
-main();
+// Only run when executed directly, so tests can import the parser
+if (process.argv[1] && resolve(process.argv[1]) === __filename) {
+  main();
+}
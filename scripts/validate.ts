@@ -0,0 +1,49 @@
+/**
+ * Validates the crosswire-KJV verse corpus (see src/validate.ts).
+ *
+ * Prints every problem with its verse reference and exits non-zero when any
+ * are found, so a bad import is caught before release.
+ *
+ * Usage: npx tsx scripts/validate.ts [--books Gen,Exod]
+ */
+
+import { validateCorpus, type ValidationIssue } from '../src/validate.js';
+
+function getBooks(): string[] | undefined {
+  const index = process.argv.indexOf('--books');
+  if (index === -1) return undefined;
+  return (process.argv[index + 1] ?? '').split(',').map(book => book.trim()).filter(Boolean);
+}
+
+function formatIssue(issue: ValidationIssue): string {
+  const position = issue.position !== undefined ? ` (word ${issue.position})` : '';
+  return `  ${issue.osisRef}${position} [${issue.check}] ${issue.message}`;
+}
+
+async function main(): Promise<void> {
+  console.log('CrossWire KJV Validator');
+  console.log('=======================\n');
+
+  try {
+    const { verses, issues } = await validateCorpus({ books: getBooks() });
+
+    for (const issue of issues) {
+      console.log(formatIssue(issue));
+    }
+
+    if (issues.length > 0) {
+      const counts = new Map<string, number>();
+      for (const { check } of issues) counts.set(check, (counts.get(check) ?? 0) + 1);
+      const summary = [...counts].map(([check, count]) => `${count} ${check}`).join(', ');
+      console.error(`\n✗ ${issues.length} problems in ${verses} verses (${summary})`);
+      process.exit(1);
+    }
+
+    console.log(`✓ ${verses} verses valid`);
+  } catch (error) {
+    console.error('Validation failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,77 @@
+/**
+ * Book name aliases for crosswire-KJV, keyed by OSIS book ID.
+ *
+ * Aliases are matched after normalization (see `resolveBook` in source.ts):
+ * case, spaces and periods are ignored and leading Roman numerals or ordinal
+ * words ("I John", "First Kings") become digits, so only the digit forms are
+ * listed here. The English book name and OSIS ID always match and are not
+ * repeated.
+ */
+export const BOOK_ALIASES: Record<string, string[]> = {
+  Gen: ['Ge', 'Gn'],
+  Exod: ['Exo', 'Ex', 'Exd'],
+  Lev: ['Le', 'Lv'],
+  Num: ['Nu', 'Nm', 'Nb'],
+  Deut: ['Deu', 'De', 'Dt'],
+  Josh: ['Jos', 'Jsh'],
+  Judg: ['Jdg', 'Jg', 'Jdgs'],
+  Ruth: ['Rth', 'Ru'],
+  '1Sam': ['1 Sa', '1 Sm', '1 S'],
+  '2Sam': ['2 Sa', '2 Sm', '2 S'],
+  '1Kgs': ['1 Ki', '1 Kin', '1 Kg', '1 K'],
+  '2Kgs': ['2 Ki', '2 Kin', '2 Kg', '2 K'],
+  '1Chr': ['1 Ch', '1 Chron'],
+  '2Chr': ['2 Ch', '2 Chron'],
+  Ezra: ['Ezr'],
+  Neh: ['Ne'],
+  Esth: ['Est', 'Es'],
+  Job: ['Jb'],
+  Ps: ['Psalm', 'Psa', 'Psm', 'Pss', 'Pslm'],
+  Prov: ['Pro', 'Prv', 'Pr'],
+  Eccl: ['Ecc', 'Ec', 'Eccles', 'Qoh', 'Qoheleth'],
+  Song: ['Song of Songs', 'Canticles', 'Canticle of Canticles', 'SoS', 'So', 'SS', 'Sng'],
+  Isa: ['Is'],
+  Jer: ['Je', 'Jr'],
+  Lam: ['La'],
+  Ezek: ['Eze', 'Ezk'],
+  Dan: ['Da', 'Dn'],
+  Hos: ['Ho'],
+  Joel: ['Jl', 'Jol'],
+  Amos: ['Am'],
+  Obad: ['Ob', 'Oba'],
+  Jonah: ['Jon', 'Jnh'],
+  Mic: ['Mc'],
+  Nah: ['Na'],
+  Hab: ['Hb'],
+  Zeph: ['Zep', 'Zp'],
+  Hag: ['Hg'],
+  Zech: ['Zec', 'Zc'],
+  Mal: ['Ml'],
+  Matt: ['Mat', 'Mt'],
+  Mark: ['Mrk', 'Mk', 'Mr', 'Mar'],
+  Luke: ['Luk', 'Lk'],
+  John: ['Joh', 'Jhn', 'Jn'],
+  Acts: ['Act', 'Ac', 'Acts of the Apostles'],
+  Rom: ['Ro', 'Rm'],
+  '1Cor': ['1 Co'],
+  '2Cor': ['2 Co'],
+  Gal: ['Ga'],
+  Eph: ['Ephes'],
+  Phil: ['Php', 'Pp'],
+  Col: ['Co'],
+  '1Thess': ['1 Thes', '1 Th'],
+  '2Thess': ['2 Thes', '2 Th'],
+  '1Tim': ['1 Ti'],
+  '2Tim': ['2 Ti'],
+  Titus: ['Tit'],
+  Phlm: ['Philem', 'Phm', 'Phile'],
+  Heb: [],
+  Jas: ['Jm', 'Jam'],
+  '1Pet': ['1 Pe', '1 Pt', '1 P'],
+  '2Pet': ['2 Pe', '2 Pt', '2 P'],
+  '1John': ['1 Jn', '1 Jhn', '1 Jo', '1 Joh', '1 J'],
+  '2John': ['2 Jn', '2 Jhn', '2 Jo', '2 Joh', '2 J'],
+  '3John': ['3 Jn', '3 Jhn', '3 Jo', '3 Joh', '3 J'],
+  Jude: ['Jud', 'Jd'],
+  Rev: ['Re', 'Revelations', 'Apocalypse', 'The Revelation'],
+};
@@ -0,0 +1,135 @@
+/**
+ * Data backends for crosswire-KJV.
+ *
+ * All data is read through a backend, so the source is not tied to the Node
+ * filesystem. Paths are relative to the package root and use forward
+ * slashes, e.g. "data/crosswire-KJV/packed/John.jsonl" or "cache/search.json".
+ *
+ * Three backends are built in:
+ *
+ *   createFsBackend(root?)        Node filesystem (the default; see fs-backend.ts)
+ *   createFetchBackend(baseUrl)   HTTP(S) `fetch` from a copy of the package files
+ *   createMemoryBackend(files)    in-memory or bundled file contents
+ */
+
+/**
+ * Reads package data files.
+ */
+export interface DataBackend {
+  /** Read a whole file as text, or null when it does not exist */
+  readText(path: string): Promise<string | null>;
+  /** Read `length` bytes of a file starting at byte `offset`, as text */
+  readRange(path: string, offset: number, length: number): Promise<string>;
+}
+
+/**
+ * Options for the fetch backend.
+ */
+export interface FetchBackendOptions {
+  /** `fetch` implementation (defaults to the global `fetch`) */
+  fetch?: typeof fetch;
+  /** Extra request headers, e.g. for authentication */
+  headers?: Record<string, string>;
+}
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+/**
+ * Read data files over HTTP(S) from `baseUrl`, which should serve the
+ * package's `data/` and `cache/` directories.
+ *
+ * Ranged reads use HTTP `Range` requests; servers that ignore them still
+ * work, at the cost of downloading the whole file.
+ */
+export function createFetchBackend(baseUrl: string, options: FetchBackendOptions = {}): DataBackend {
+  const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  const fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+
+  async function request(path: string, headers: Record<string, string> = {}): Promise<Response | null> {
+    const response = await fetchFn(new URL(path, base), { headers: { ...options.headers, ...headers } });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${path}: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+
+  return {
+    async readText(path) {
+      const response = await request(path);
+      return response ? response.text() : null;
+    },
+
+    async readRange(path, offset, length) {
+      if (length === 0) return '';
+      const response = await request(path, { Range: `bytes=${offset}-${offset + length - 1}` });
+      if (!response) {
+        throw new Error(`File not found: ${path}`);
+      }
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      return decoder.decode(response.status === 206 ? bytes : bytes.subarray(offset, offset + length));
+    },
+  };
+}
+
+/**
+ * Serve data files from memory, e.g. contents bundled into a worker.
+ *
+ * Keys are package-relative paths. Contents are stored as UTF-8 bytes so
+ * that ranged reads use the same byte offsets as the packed indexes.
+ */
+export function createMemoryBackend(files: Record<string, string | Uint8Array>): DataBackend {
+  const contents = new Map<string, Uint8Array>();
+  for (const [path, content] of Object.entries(files)) {
+    contents.set(path, typeof content === 'string' ? encoder.encode(content) : content);
+  }
+
+  return {
+    async readText(path) {
+      const bytes = contents.get(path);
+      return bytes ? decoder.decode(bytes) : null;
+    },
+
+    async readRange(path, offset, length) {
+      const bytes = contents.get(path);
+      if (!bytes) {
+        throw new Error(`File not found: ${path}`);
+      }
+      return decoder.decode(bytes.subarray(offset, offset + length));
+    },
+  };
+}
+
+let activeBackend: DataBackend | null = null;
+let defaultBackend: Promise<DataBackend> | null = null;
+const resetListeners: Array<() => void> = [];
+
+/**
+ * Use `backend` for all data reads. Data already loaded from the previous
+ * backend is discarded.
+ */
+export function setDataBackend(backend: DataBackend): void {
+  activeBackend = backend;
+  for (const reset of resetListeners) reset();
+}
+
+/**
+ * Get the backend data is read from.
+ *
+ * Until `setDataBackend` is called this is the Node filesystem backend,
+ * which is only loaded on first use so that bundles for other runtimes do
+ * not need `fs`.
+ */
+export async function getDataBackend(): Promise<DataBackend> {
+  if (activeBackend) return activeBackend;
+  defaultBackend ??= import('./fs-backend.js').then(module => module.createFsBackend());
+  return defaultBackend;
+}
+
+/**
+ * Register a function that discards data cached from the current backend.
+ */
+export function onDataBackendChange(reset: () => void): void {
+  resetListeners.push(reset);
+}
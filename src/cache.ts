@@ -0,0 +1,135 @@
+/**
+ * In-process caching and bounded-concurrency helpers for verse loading.
+ */
+
+/**
+ * Cache counters and usage.
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  /** Number of cached entries */
+  entries: number;
+  /** Approximate size of cached entries, in bytes of their JSON source */
+  bytes: number;
+  /** Memory budget in bytes (0 disables caching) */
+  maxBytes: number;
+}
+
+/**
+ * Least-recently-used cache bounded by the total size of its entries.
+ *
+ * Entry sizes are supplied by the caller; an entry larger than the whole
+ * budget is not cached.
+ */
+export class LruCache<V> {
+  // Map iteration order is insertion order, so the first key is least recently used
+  private entries = new Map<string, { value: V; size: number }>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private maxBytes: number) {}
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V, size: number): void {
+    this.delete(key);
+    if (size > this.maxBytes) return;
+
+    this.entries.set(key, { value, size });
+    this.bytes += size;
+    this.evict();
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.bytes -= entry.size;
+    }
+  }
+
+  /**
+   * Change the memory budget, evicting entries that no longer fit.
+   */
+  resize(maxBytes: number): void {
+    this.maxBytes = maxBytes;
+    this.evict();
+  }
+
+  /**
+   * Remove all entries and reset the counters.
+   */
+  clear(): void {
+    this.entries.clear();
+    this.bytes = 0;
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+
+  stats(): CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  private evict(): void {
+    while (this.bytes > this.maxBytes) {
+      const [key, entry] = this.entries.entries().next().value!;
+      this.entries.delete(key);
+      this.bytes -= entry.size;
+      this.evictions++;
+    }
+  }
+}
+
+/**
+ * Freeze a parsed JSON value and everything it contains, so values shared
+ * through a cache cannot be modified by one caller under another.
+ */
+export function deepFreeze<T>(value: T): T {
+  if (value !== null && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const child of Object.values(value)) {
+      deepFreeze(child);
+    }
+  }
+  return value;
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, keeping result order.
+ */
+export async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,160 @@
+/**
+ * Verse-level comparison of two imports of crosswire-KJV data.
+ *
+ * Used by the importer to report what a new import changes in the data tree
+ * before it is published.
+ */
+
+/**
+ * A verse to compare.
+ */
+export interface DiffableVerse {
+  /** OSIS book ID */
+  book: string;
+  chapter: number;
+  verse: number;
+  data: unknown;
+}
+
+/**
+ * How one verse differs between two imports.
+ */
+export interface VerseChange {
+  osisRef: string;
+  /** Word positions only in the new verse */
+  addedWords: number[];
+  /** Word positions only in the old verse */
+  removedWords: number[];
+  /** Word positions whose text or attributes changed */
+  changedWords: number[];
+  /** Other verse fields that changed (e.g. "text", "notes") */
+  fields: string[];
+}
+
+/**
+ * Differences between two imports, in canonical verse order.
+ */
+export interface DataDiff {
+  /** Verses only in the new import */
+  added: string[];
+  /** Verses only in the old import */
+  removed: string[];
+  changed: VerseChange[];
+  /** Number of verses present in both and identical */
+  unchanged: number;
+}
+
+function osisRefOf({ book, chapter, verse }: DiffableVerse): string {
+  return `${book}.${chapter}.${verse}`;
+}
+
+/**
+ * JSON with object keys sorted, so that key order does not count as a change.
+ */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, entry) =>
+    entry && typeof entry === 'object' && !Array.isArray(entry)
+      ? Object.fromEntries(Object.keys(entry).sort().map(key => [key, entry[key]]))
+      : entry);
+}
+
+type VerseFields = Record<string, unknown> & { words?: unknown[] };
+
+function diffVerse(osisRef: string, before: VerseFields, after: VerseFields): VerseChange | null {
+  const oldWords = before.words ?? [];
+  const newWords = after.words ?? [];
+  const change: VerseChange = { osisRef, addedWords: [], removedWords: [], changedWords: [], fields: [] };
+
+  for (let i = 0; i < Math.max(oldWords.length, newWords.length); i++) {
+    if (i >= oldWords.length) {
+      change.addedWords.push(i + 1);
+    } else if (i >= newWords.length) {
+      change.removedWords.push(i + 1);
+    } else if (canonical(oldWords[i]) !== canonical(newWords[i])) {
+      change.changedWords.push(i + 1);
+    }
+  }
+
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  fields.delete('words');
+  for (const field of [...fields].sort()) {
+    if (canonical(before[field]) !== canonical(after[field])) {
+      change.fields.push(field);
+    }
+  }
+
+  const changed = change.addedWords.length + change.removedWords.length + change.changedWords.length + change.fields.length;
+  return changed > 0 ? change : null;
+}
+
+/**
+ * Compare two imports. Verses are reported in the order of `after`, followed
+ * by verses only in `before` in their own order.
+ */
+export function diffVerses(before: Iterable<DiffableVerse>, after: Iterable<DiffableVerse>): DataDiff {
+  const oldVerses = new Map<string, DiffableVerse>();
+  for (const verse of before) {
+    oldVerses.set(osisRefOf(verse), verse);
+  }
+
+  const diff: DataDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+  const seen = new Set<string>();
+
+  for (const verse of after) {
+    const osisRef = osisRefOf(verse);
+    seen.add(osisRef);
+    const old = oldVerses.get(osisRef);
+    if (!old) {
+      diff.added.push(osisRef);
+      continue;
+    }
+    const change = diffVerse(osisRef, old.data as VerseFields, verse.data as VerseFields);
+    if (change) {
+      diff.changed.push(change);
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  for (const osisRef of oldVerses.keys()) {
+    if (!seen.has(osisRef)) diff.removed.push(osisRef);
+  }
+
+  return diff;
+}
+
+/**
+ * Summarize a diff as a human-readable report, listing at most `limit`
+ * verses per section.
+ */
+export function formatDiff(diff: DataDiff, limit = 50): string {
+  const lines: string[] = [];
+  const wordCount = (key: 'addedWords' | 'removedWords' | 'changedWords'): number =>
+    diff.changed.reduce((total, change) => total + change[key].length, 0);
+
+  lines.push(
+    `Verses: ${diff.added.length} added, ${diff.removed.length} removed, ` +
+    `${diff.changed.length} changed, ${diff.unchanged} unchanged`,
+    `Words: ${wordCount('addedWords')} added, ${wordCount('removedWords')} removed, ${wordCount('changedWords')} changed`,
+  );
+
+  const section = (title: string, entries: string[]): void => {
+    if (entries.length === 0) return;
+    lines.push('', `${title}:`);
+    for (const entry of entries.slice(0, limit)) lines.push(`  ${entry}`);
+    if (entries.length > limit) lines.push(`  ... and ${entries.length - limit} more`);
+  };
+
+  section('Added verses', diff.added);
+  section('Removed verses', diff.removed);
+  section('Changed verses', diff.changed.map(change => {
+    const parts: string[] = [];
+    if (change.addedWords.length) parts.push(`+${change.addedWords.length} words`);
+    if (change.removedWords.length) parts.push(`-${change.removedWords.length} words`);
+    if (change.changedWords.length) parts.push(`words ${change.changedWords.join(', ')} changed`);
+    if (change.fields.length) parts.push(`${change.fields.join(', ')} changed`);
+    return `${change.osisRef}: ${parts.join('; ')}`;
+  }));
+
+  return lines.join('\n');
+}
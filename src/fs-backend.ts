@@ -0,0 +1,41 @@
+/**
+ * Node filesystem data backend for crosswire-KJV.
+ *
+ * Kept out of backend.ts so that only Node builds load `fs`.
+ */
+
+import { fileURLToPath } from 'url';
+import { resolve } from 'path';
+import { open, readFile } from 'fs/promises';
+import type { DataBackend } from './backend.js';
+
+// The package root, relative to this file in src/ or dist/
+const PACKAGE_ROOT = fileURLToPath(new URL('..', import.meta.url));
+
+/**
+ * Read data files from the filesystem under `root` (the installed package
+ * by default). Absolute paths are read as they are.
+ */
+export function createFsBackend(root: string = PACKAGE_ROOT): DataBackend {
+  return {
+    async readText(path) {
+      try {
+        return await readFile(resolve(root, path), 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async readRange(path, offset, length) {
+      const handle = await open(resolve(root, path), 'r');
+      try {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, offset);
+        return buffer.toString('utf-8', 0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    },
+  };
+}
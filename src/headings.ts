@@ -0,0 +1,88 @@
+/**
+ * Book titles, Psalm superscriptions and other headings for crosswire-KJV.
+ *
+ * The importer writes `data/crosswire-KJV/headings.json`, keyed by OSIS book
+ * ID, with every OSIS `<title>` attached to what it precedes: the book
+ * (before the first chapter), a chapter (before its first verse) or a verse.
+ * Verse data does not record titles, so a data tree imported before headings
+ * were written has no headings.
+ */
+
+import { sourceInfo, toOsis } from './source.js';
+import { getDataBackend, onDataBackendChange } from './backend.js';
+
+/**
+ * What a heading precedes.
+ */
+export type HeadingLevel = 'book' | 'chapter' | 'verse';
+
+/**
+ * A heading from the source text.
+ */
+export interface Heading {
+  level: HeadingLevel;
+  /** Title type attribute (e.g. "main", "psalm", "acrostic"), if any */
+  type: string | null;
+  /** Whether the title is part of the canonical text (e.g. Psalm superscriptions) */
+  canonical: boolean;
+  text: string;
+  /** Chapter for chapter- and verse-level headings */
+  chapter?: number;
+  /** Verse for verse-level headings */
+  verse?: number;
+}
+
+/**
+ * Headings keyed by OSIS book ID, in text order.
+ */
+export type HeadingTable = Record<string, Heading[]>;
+
+const HEADINGS_PATH = `${sourceInfo.dataDir}/headings.json`;
+
+/**
+ * Select the headings of a book, or of one chapter of it.
+ *
+ * Chapter selection includes the chapter's own headings and those of its
+ * verses, but not book-level headings.
+ */
+export function selectHeadings(table: HeadingTable, book: string, chapter?: number): Heading[] {
+  const headings = table[toOsis(book)] ?? [];
+  if (chapter === undefined) return headings;
+  return headings.filter(heading => heading.level !== 'book' && heading.chapter === chapter);
+}
+
+let tablePromise: Promise<HeadingTable> | null = null;
+
+function loadHeadingTable(): Promise<HeadingTable> {
+  tablePromise ??= getDataBackend()
+    .then(backend => backend.readText(HEADINGS_PATH))
+    .then(content => (content === null ? {} : JSON.parse(content) as HeadingTable))
+    .catch(() => {
+      tablePromise = null;
+      throw new Error('Headings not found in crosswire-KJV');
+    });
+  return tablePromise;
+}
+
+onDataBackendChange(() => {
+  tablePromise = null;
+});
+
+/**
+ * Load the headings of a book, or of one chapter of it.
+ */
+export async function loadHeadings(book: string, chapter?: number): Promise<Heading[]> {
+  return selectHeadings(await loadHeadingTable(), book, chapter);
+}
+
+/**
+ * Load the headings that precede a verse.
+ *
+ * For the first verse of a chapter this includes the chapter's headings
+ * (e.g. a Psalm superscription).
+ */
+export async function loadVerseHeadings(book: string, chapter: number, verse: number): Promise<Heading[]> {
+  return (await loadHeadings(book, chapter)).filter(heading =>
+    heading.level === 'verse' ? heading.verse === verse : verse === 1
+  );
+}
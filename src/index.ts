@@ -6,18 +6,47 @@
  */
 
 import { registerSource } from '@metaxia/scriptures-core';
-import { sourceInfo, loadVerse, loadChapter, loadCache, listBooks } from './source.js';
+import { sourceInfo, loadVerse, loadChapter, loadCache, listBooks, createSource } from './source.js';
 
 // Auto-register on import
-registerSource({
-  edition: sourceInfo.edition,
-  metadata: sourceInfo.metadata,
-  loadVerse,
-  loadChapter,
-  loadCache,
-  listBooks,
-});
+registerSource(createSource());
 
 // Export source info for direct access
-export { sourceInfo, loadVerse, loadChapter, loadCache, listBooks };
-export { metadata } from './source.js';
+export { sourceInfo, loadVerse, loadChapter, loadCache, listBooks, createSource };
+export type { SourceOptions } from './source.js';
+export { createFetchBackend, createMemoryBackend, setDataBackend, getDataBackend } from './backend.js';
+export type { DataBackend, FetchBackendOptions } from './backend.js';
+export { metadata, listChapters, getVerseCount, loadVersification, resolveBook, UnknownBookError, VerseNotFoundError } from './source.js';
+export type { Versification, ResolvedBook, KjvVerseData, KjvVerseMetadata, KjvWord, WordLemma, LoadOptions, VerseNote, VerseBreak } from './source.js';
+export { configureVerseCache, getVerseCacheStats, clearVerseCache, preload } from './source.js';
+export type { VerseCacheOptions } from './source.js';
+export type { CacheStats } from './cache.js';
+export { findByStrongs, normalizeStrongs } from './strongs.js';
+export type { StrongsOccurrence } from './strongs.js';
+export { findRelatedVerses } from './related.js';
+export type { RelatedOptions, RelatedVerse } from './related.js';
+export { parseLemma, getWordLemmas } from './lemma.js';
+export { decodeMorph, decodeMorphCode, describeMorph } from './morph.js';
+export type { MorphologyEntry, MorphFeatures, MorphScheme, PartOfSpeech } from './morph.js';
+export { loadInterlinear, alignInterlinear } from './interlinear.js';
+export type { InterlinearVerse, InterlinearWord } from './interlinear.js';
+export { loadPassage, parsePassage } from './passage.js';
+export type { PassageRange, PassageChapter, PassageVerse } from './passage.js';
+export { iterateVerses } from './iterate.js';
+export type { IterateOptions, IteratedVerse, VersePosition } from './iterate.js';
+export { loadHeadings, loadVerseHeadings } from './headings.js';
+export type { Heading, HeadingLevel } from './headings.js';
+export { loadParagraphs, groupParagraphs } from './layout.js';
+export type { Paragraph, ParagraphVerse } from './layout.js';
+export { renderVerse, renderChapter } from './render.js';
+export type { RenderFormat, RenderOptions, RenderVerseOptions, SuppliedStyle, VerseReference } from './render.js';
+export { validateCorpus, validateVerse } from './validate.js';
+export type { ValidationCheck, ValidationIssue, ValidationReport, ValidateOptions } from './validate.js';
+export { splitPunctuation, getWordForm, getSpaceBefore, joinWords } from './tokens.js';
+export type { TokenLike } from './tokens.js';
+export { search } from './search.js';
+export type { SearchOptions, SearchResult } from './search.js';
+export { loadWordStats, getWordFrequency, getStrongsFrequency, getTopWords, getHapaxLegomena, getVocabularyStats } from './stats.js';
+export type { WordStats, OccurrenceCounts, StatsOptions, StatsKey, TermListOptions, WordFrequency, BookFrequency, VocabularyStats, BookVocabulary } from './stats.js';
+export { getQuoteContext, isWordsOfChrist, getWordsOfChrist, getWordsBySpeaker, isDivineName, getDivineNames, getWordGroups, getWordGroup } from './words.js';
+export type { QuoteMetadata, DivineNameMetadata, WordGroupMetadata, WordGroup, WordLike } from './words.js';
@@ -0,0 +1,100 @@
+/**
+ * Reverse interlinear for crosswire-KJV New Testament verses.
+ *
+ * Each NT word records in `metadata.src` the position(s) of the Textus
+ * Receptus words it translates, in the same order as its Strong's numbers,
+ * lemma forms and morph codes:
+ *
+ *   { "text": "God", "lemma": "strong:G3588 strong:G2316 lemma.TR:ο lemma.TR:θεος",
+ *     "morph": "robinson:T-NSM robinson:N-NSM", "metadata": { "src": "4 5" } }
+ *
+ * Regrouping the English words by source position gives the verse in Greek
+ * word order, each Greek word paired with the English words that render it.
+ */
+
+import { loadVerse, type KjvWord } from './source.js';
+import { getWordLemmas } from './lemma.js';
+import { decodeMorph, type MorphologyEntry } from './morph.js';
+
+/**
+ * An original-language word with the English words that translate it.
+ */
+export interface InterlinearWord<W = KjvWord> {
+  /** Position in the Textus Receptus verse (1-based) */
+  src: number;
+  strongs: string | null;
+  /** Lemma form, e.g. "θεος" */
+  lemma: string | null;
+  morphology: MorphologyEntry | null;
+  /** English words translating this word, in English order */
+  english: W[];
+}
+
+/**
+ * A verse arranged in original-language word order.
+ */
+export interface InterlinearVerse<W = KjvWord> {
+  /** Original-language words in source order */
+  words: InterlinearWord<W>[];
+  /** English words with no source position (e.g. supplied words) */
+  unaligned: W[];
+}
+
+/**
+ * Parse a word's `metadata.src` into source positions.
+ */
+function sourcePositions(word: KjvWord): number[] {
+  const src = word.metadata?.src;
+  if (typeof src !== 'string') return [];
+  return src.trim().split(/\s+/).filter(Boolean).map(value => parseInt(value, 10)).filter(Number.isFinite);
+}
+
+/**
+ * Arrange a verse's words by source position.
+ *
+ * `book` (name or OSIS ID) supplies the testament for unprefixed Strong's
+ * numbers. Old Testament words have no source positions, so all of them are
+ * unaligned.
+ */
+export function alignInterlinear<W extends KjvWord>(verse: { words: W[] }, book: string): InterlinearVerse<W> {
+  const bySource = new Map<number, InterlinearWord<W>>();
+  const unaligned: W[] = [];
+
+  for (const word of verse.words) {
+    const positions = sourcePositions(word);
+    if (positions.length === 0) {
+      unaligned.push(word);
+      continue;
+    }
+
+    const lemmas = getWordLemmas(word, book);
+    const morphology = decodeMorph(word.morph);
+
+    positions.forEach((src, i) => {
+      let entry = bySource.get(src);
+      if (!entry) {
+        entry = {
+          src,
+          strongs: lemmas[i]?.strongs ?? null,
+          lemma: lemmas[i]?.forms ? Object.values(lemmas[i].forms!)[0] : null,
+          morphology: morphology[i] ?? null,
+          english: [],
+        };
+        bySource.set(src, entry);
+      }
+      if (!entry.english.includes(word)) {
+        entry.english.push(word);
+      }
+    });
+  }
+
+  const words = [...bySource.values()].sort((a, b) => a.src - b.src);
+  return { words, unaligned };
+}
+
+/**
+ * Load a verse arranged in original-language word order.
+ */
+export async function loadInterlinear(book: string, chapter: number, verse: number): Promise<InterlinearVerse> {
+  return alignInterlinear(await loadVerse(book, chapter, verse), book);
+}
@@ -0,0 +1,156 @@
+/**
+ * Streaming iteration over the crosswire-KJV corpus in canonical order.
+ *
+ * Verses are loaded one chapter at a time as the iterator advances, so
+ * processing the whole Bible needs no more memory than the verse cache
+ * allows, and breaking out of the loop stops loading.
+ */
+
+import { loadVersification, loadChapter, listOsisBooks, getTestament, toOsis, fromOsis, resolveBook, type KjvVerseData, type LoadOptions, type Testament } from './source.js';
+import { parsePassage } from './passage.js';
+
+/**
+ * A position to start or stop at. Without a chapter or verse it covers the
+ * whole book or chapter.
+ */
+export interface VersePosition {
+  book: string;
+  chapter?: number;
+  verse?: number;
+}
+
+/**
+ * Options for iterating verses.
+ */
+export interface IterateOptions extends LoadOptions {
+  /** Only these books (names or OSIS IDs); all books by default */
+  books?: string[];
+  /** Only books of this testament */
+  testament?: Testament;
+  /** First verse, as a reference ("Gen 12", "John 3:16", "Rom") or position */
+  from?: string | VersePosition;
+  /** Last verse (inclusive), as a reference or position */
+  to?: string | VersePosition;
+}
+
+/**
+ * A verse yielded by `iterateVerses`.
+ */
+export interface IteratedVerse {
+  /** English book name */
+  book: string;
+  /** e.g. "John.3.16" */
+  osisRef: string;
+  chapter: number;
+  verse: number;
+  data: KjvVerseData;
+}
+
+/**
+ * `[book index, chapter, verse]`, comparable in canonical order.
+ */
+type Position = [number, number, number];
+
+const BOOK_ORDER = new Map(listOsisBooks().map((book, i) => [book, i]));
+
+function comparePositions(a: Position, b: Position): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/**
+ * Resolve a bound to the first (`start`) or last (`end`) position it covers.
+ */
+function toPosition(bound: string | VersePosition, edge: 'start' | 'end'): Position {
+  let position: VersePosition;
+  if (typeof bound !== 'string') {
+    position = bound;
+  } else {
+    let book: string | null = null;
+    try {
+      book = resolveBook(bound).name;
+    } catch {
+      // Not a bare book name; parse it as a passage reference
+    }
+
+    if (book) {
+      position = { book };
+    } else {
+      const ranges = parsePassage(bound);
+      const range = edge === 'start' ? ranges[0] : ranges[ranges.length - 1];
+      position = edge === 'start'
+        ? { book: range.book, chapter: range.startChapter, verse: range.startVerse }
+        : { book: range.book, chapter: range.endChapter, verse: range.endVerse };
+    }
+  }
+
+  const fill = edge === 'start' ? 0 : Infinity;
+  return [BOOK_ORDER.get(toOsis(position.book))!, position.chapter ?? fill, position.verse ?? fill];
+}
+
+/**
+ * Iterate verses in canonical order, with their references.
+ *
+ * Filters combine: `{ testament: 'NT', from: 'Rom', to: 'Jude' }` yields the
+ * epistles. Pass `{ morphology: true }` to decode morph codes as
+ * `loadVerse` does.
+ */
+export async function* iterateVerses(options: IterateOptions = {}): AsyncGenerator<IteratedVerse> {
+  const from = options.from !== undefined ? toPosition(options.from, 'start') : null;
+  const to = options.to !== undefined ? toPosition(options.to, 'end') : null;
+  if (from && to && comparePositions(from, to) > 0) {
+    throw new Error('Invalid verse range: it ends before it starts');
+  }
+
+  const selected = options.books ? new Set(options.books.map(toOsis)) : null;
+  const books = listOsisBooks().filter(book =>
+    (!selected || selected.has(book)) && (!options.testament || getTestament(book) === options.testament));
+  const versification = await loadVersification();
+  const loadOptions: LoadOptions = { morphology: options.morphology };
+
+  for (const osisBook of books) {
+    const bookIndex = BOOK_ORDER.get(osisBook)!;
+    const counts = versification[osisBook] ?? [];
+
+    for (let chapter = 1; chapter <= counts.length; chapter++) {
+      if (from && comparePositions([bookIndex, chapter, Infinity], from) < 0) continue;
+      if (to && comparePositions([bookIndex, chapter, 0], to) > 0) return;
+
+      const verses = await loadChapter(osisBook, chapter, loadOptions);
+      for (let verse = 1; verse <= verses.length; verse++) {
+        const position: Position = [bookIndex, chapter, verse];
+        if (from && comparePositions(position, from) < 0) continue;
+        if (to && comparePositions(position, to) > 0) return;
+
+        yield {
+          book: fromOsis(osisBook),
+          osisRef: `${osisBook}.${chapter}.${verse}`,
+          chapter,
+          verse,
+          data: verses[verse - 1],
+        };
+      }
+    }
+  }
+}
+
+/**
+ * A verse identified by OSIS book ID, as the index builders take it.
+ */
+export interface CorpusVerse {
+  book: string;
+  chapter: number;
+  verse: number;
+  data: KjvVerseData;
+}
+
+/**
+ * Read every verse in canonical order, for building an index whose cache is
+ * missing. This holds the whole corpus in memory.
+ */
+export async function readCorpus(): Promise<CorpusVerse[]> {
+  const verses: CorpusVerse[] = [];
+  for await (const { osisRef, chapter, verse, data } of iterateVerses()) {
+    verses.push({ book: osisRef.slice(0, osisRef.indexOf('.')), chapter, verse, data });
+  }
+  return verses;
+}
@@ -0,0 +1,86 @@
+/**
+ * Paragraph and poetry layout for crosswire-KJV chapters.
+ *
+ * Verses carry `breaks` anchored to word positions (see VerseBreak). These
+ * helpers regroup a chapter's verses into paragraphs so prose and poetry can
+ * be laid out instead of rendering one verse per line.
+ */
+
+import { loadChapter, type KjvVerseData, type VerseBreak } from './source.js';
+
+/**
+ * The part of a verse that falls within one paragraph.
+ */
+export interface ParagraphVerse {
+  verse: number;
+  data: KjvVerseData;
+  /** First and last word positions of the verse in this paragraph */
+  range: [number, number];
+  /** Poetic lines starting in this part of the verse */
+  lines: Array<{ position: number; level?: number }>;
+}
+
+/**
+ * A paragraph (or stanza) of a chapter.
+ */
+export interface Paragraph {
+  /** Marks a poetry stanza rather than a prose paragraph */
+  stanza: boolean;
+  /** Printed marker that opens the paragraph, e.g. "¶" */
+  marker?: string;
+  verses: ParagraphVerse[];
+}
+
+function isParagraphStart(entry: VerseBreak): boolean {
+  return entry.type === 'paragraph' || entry.type === 'stanza';
+}
+
+/**
+ * Group a chapter's verses (in order, numbered from 1) into paragraphs.
+ *
+ * The chapter always opens a paragraph. A break in the middle of a verse
+ * splits that verse across two paragraphs.
+ */
+export function groupParagraphs(verses: KjvVerseData[]): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+
+  verses.forEach((data, i) => {
+    const lastPosition: number = data.words.length;
+    const breaks: VerseBreak[] = data.breaks ?? [];
+    const starts = [...new Set(breaks.filter(isParagraphStart).map(b => b.position))];
+    if (!starts.includes(1)) starts.unshift(1);
+    starts.sort((a, b) => a - b);
+
+    starts.forEach((start, j) => {
+      const end = j + 1 < starts.length ? starts[j + 1] - 1 : lastPosition;
+      const opening = breaks.filter(b => b.position === start && isParagraphStart(b));
+
+      if (opening.length > 0 || paragraphs.length === 0) {
+        const marker = opening.find(b => b.marker)?.marker;
+        paragraphs.push({
+          stanza: opening.some(b => b.type === 'stanza'),
+          ...(marker && { marker }),
+          verses: [],
+        });
+      }
+
+      paragraphs[paragraphs.length - 1].verses.push({
+        verse: i + 1,
+        data,
+        range: [start, end],
+        lines: breaks
+          .filter(b => b.type === 'line' && b.position >= start && b.position <= end)
+          .map(b => ({ position: b.position, ...(b.level !== undefined && { level: b.level }) })),
+      });
+    });
+  });
+
+  return paragraphs;
+}
+
+/**
+ * Load a chapter grouped into paragraphs and stanzas.
+ */
+export async function loadParagraphs(book: string, chapter: number): Promise<Paragraph[]> {
+  return groupParagraphs(await loadChapter(book, chapter));
+}
@@ -0,0 +1,65 @@
+/**
+ * Parsing of OSIS `lemma` attributes for crosswire-KJV words.
+ *
+ * A word's lemma attribute lists its Strong's numbers followed by any
+ * original-language lemma forms, in the same order:
+ *
+ *   "strong:G3588 strong:G2316 lemma.TR:ο lemma.TR:θεος"
+ *   -> [{ strongs: 'G3588', forms: { TR: 'ο' } }, { strongs: 'G2316', forms: { TR: 'θεος' } }]
+ */
+
+import { getTestament, type Testament, type WordLemma } from './source.js';
+
+const STRONGS_TOKEN_RE = /^(?:strongs?:)?([HGhg]?)0*(\d{1,5})$/;
+const FORM_TOKEN_RE = /^lemma\.([^:]+):(.+)$/;
+
+/**
+ * Parse a lemma attribute into Strong's numbers paired with their lemma forms.
+ *
+ * Numbers without an H/G prefix take the prefix of the testament they occur
+ * in. Forms are paired with numbers by order; a single form covering several
+ * numbers (compound numerals such as "ογδοηκοντατεσσαρων") is shared by all
+ * of them.
+ */
+export function parseLemma(value: string | null | undefined, testament: Testament): WordLemma[] {
+  if (!value) return [];
+
+  const lemmas: WordLemma[] = [];
+  const forms: Record<string, string[]> = {};
+
+  for (const token of value.trim().split(/\s+/)) {
+    const strongs = token.match(STRONGS_TOKEN_RE);
+    if (strongs) {
+      const prefix = strongs[1] ? strongs[1].toUpperCase() : testament === 'NT' ? 'G' : 'H';
+      lemmas.push({ strongs: `${prefix}${parseInt(strongs[2], 10)}` });
+      continue;
+    }
+
+    const form = token.match(FORM_TOKEN_RE);
+    if (form) {
+      (forms[form[1]] ??= []).push(form[2]);
+    }
+  }
+
+  for (const [text, values] of Object.entries(forms)) {
+    lemmas.forEach((lemma, i) => {
+      const form = values.length === 1 ? values[0] : values[i];
+      if (form !== undefined) {
+        lemma.forms = { ...lemma.forms, [text]: form };
+      }
+    });
+  }
+
+  return lemmas;
+}
+
+/**
+ * Get a word's Strong's numbers paired with their lemma forms.
+ *
+ * Uses the word's parsed `lemmas` when present, otherwise parses its raw
+ * `lemma` attribute. `book` (name or OSIS ID) supplies the testament for
+ * numbers without a prefix.
+ */
+export function getWordLemmas(word: { lemma?: string | null; lemmas?: WordLemma[] }, book: string): WordLemma[] {
+  return word.lemmas ?? parseLemma(word.lemma, getTestament(book));
+}
@@ -0,0 +1,398 @@
+/**
+ * Morphology decoding for crosswire-KJV words.
+ *
+ * New Testament words carry Robinson codes ("robinson:V-2AAI-3S") and Old
+ * Testament verbs carry Strong's tense/voice/mood numbers
+ * ("strongMorph:TH8799"). A word's `morph` attribute may list several codes
+ * separated by spaces, one per Strong's number in its lemma.
+ */
+
+/**
+ * Morphology code scheme.
+ */
+export type MorphScheme = 'robinson' | 'strongMorph';
+
+export type PartOfSpeech =
+  | 'noun' | 'adjective' | 'article' | 'verb' | 'adverb' | 'conjunction' | 'conditional'
+  | 'particle' | 'preposition' | 'interjection'
+  | 'personal pronoun' | 'relative pronoun' | 'reciprocal pronoun' | 'demonstrative pronoun'
+  | 'correlative pronoun' | 'interrogative pronoun' | 'indefinite pronoun'
+  | 'correlative or interrogative pronoun' | 'reflexive pronoun' | 'possessive pronoun'
+  | 'Aramaic word' | 'Hebrew word';
+
+export type Tense = 'present' | 'imperfect' | 'future' | 'aorist' | 'perfect' | 'pluperfect';
+
+export type Voice =
+  | 'active' | 'middle' | 'passive' | 'middle or passive' | 'middle deponent'
+  | 'passive deponent' | 'middle or passive deponent' | 'impersonal active' | 'no voice';
+
+export type Mood =
+  | 'indicative' | 'subjunctive' | 'optative' | 'imperative' | 'infinitive' | 'participle'
+  | 'imperative participle' | 'imperfect' | 'perfect';
+
+export type Case = 'nominative' | 'genitive' | 'dative' | 'accusative' | 'vocative';
+
+export type GrammaticalNumber = 'singular' | 'plural';
+
+export type Gender = 'masculine' | 'feminine' | 'neuter';
+
+export type Person = 1 | 2 | 3;
+
+/**
+ * Grammatical features of a decoded code. Only features the code marks are set.
+ */
+export interface MorphFeatures {
+  partOfSpeech?: PartOfSpeech;
+  /** Hebrew or Aramaic verb stem, e.g. "Qal", "Piel", "Peal" */
+  stem?: string;
+  tense?: Tense;
+  /** Second aorist, perfect, pluperfect or future */
+  secondForm?: boolean;
+  voice?: Voice;
+  mood?: Mood;
+  person?: Person;
+  case?: Case;
+  number?: GrammaticalNumber;
+  gender?: Gender;
+  /** Number of the possessor (possessive pronouns) */
+  possessorNumber?: GrammaticalNumber;
+  degree?: 'comparative' | 'superlative';
+  /** Negative, interrogative, crasis, Attic, abbreviated, ... */
+  qualifiers?: string[];
+  /** Indeclinable noun or numeral */
+  indeclinable?: boolean;
+  /** Proper noun, letter or other indeclinable kind */
+  kind?: 'proper name' | 'letter' | 'other' | 'numeral';
+  /** The code marks an alternative reading rather than a form */
+  variant?: boolean;
+}
+
+/**
+ * A decoded morphology code.
+ */
+export interface MorphologyEntry {
+  scheme: MorphScheme;
+  /** Code without its scheme prefix, e.g. "V-2AAI-3S" or "TH8799" */
+  code: string;
+  features: MorphFeatures;
+  /** Human-readable description, e.g. "verb, second aorist active indicative, third person singular" */
+  description: string;
+}
+
+const CASES: Record<string, Case> = { N: 'nominative', G: 'genitive', D: 'dative', A: 'accusative', V: 'vocative' };
+const NUMBERS: Record<string, GrammaticalNumber> = { S: 'singular', P: 'plural' };
+const GENDERS: Record<string, Gender> = { M: 'masculine', F: 'feminine', N: 'neuter' };
+
+const TENSES: Record<string, Tense> = {
+  P: 'present', I: 'imperfect', F: 'future', A: 'aorist', R: 'perfect', L: 'pluperfect',
+};
+
+const VOICES: Record<string, Voice> = {
+  A: 'active', M: 'middle', P: 'passive', E: 'middle or passive', D: 'middle deponent',
+  O: 'passive deponent', N: 'middle or passive deponent', Q: 'impersonal active', X: 'no voice',
+};
+
+const MOODS: Record<string, Mood> = {
+  I: 'indicative', S: 'subjunctive', O: 'optative', M: 'imperative', N: 'infinitive',
+  P: 'participle', R: 'imperative participle',
+};
+
+/**
+ * Robinson prefixes of inflected words, with the shape of their inflection.
+ */
+const ROBINSON_PARTS: Record<string, PartOfSpeech> = {
+  N: 'noun', A: 'adjective', T: 'article', V: 'verb',
+  P: 'personal pronoun', R: 'relative pronoun', C: 'reciprocal pronoun', D: 'demonstrative pronoun',
+  K: 'correlative pronoun', I: 'interrogative pronoun', X: 'indefinite pronoun',
+  Q: 'correlative or interrogative pronoun', F: 'reflexive pronoun', S: 'possessive pronoun',
+};
+
+/**
+ * Robinson codes of uninflected words.
+ */
+const ROBINSON_WORDS: Record<string, PartOfSpeech> = {
+  ADV: 'adverb', CONJ: 'conjunction', COND: 'conditional', PRT: 'particle', PREP: 'preposition',
+  INJ: 'interjection', ARAM: 'Aramaic word', HEB: 'Hebrew word',
+};
+
+const ROBINSON_SUFFIXES: Record<string, string> = {
+  N: 'negative', I: 'interrogative', K: 'crasis with και', ATT: 'Attic form', ABB: 'abbreviated',
+  P: 'particle attached', M: 'middle significance',
+};
+
+const INDECLINABLE_KINDS: Record<string, MorphFeatures['kind']> = {
+  PRI: 'proper name', LI: 'letter', OI: 'other', NUI: 'numeral',
+};
+
+/**
+ * Apply a case/number/gender group ("GSF", "NS" or "1SNSM"-style tails).
+ */
+function applyCng(features: MorphFeatures, value: string): boolean {
+  const match = value.match(/^([NGDAV])([SP])([MFN])?$/);
+  if (!match) return false;
+  features.case = CASES[match[1]];
+  features.number = NUMBERS[match[2]];
+  if (match[3]) features.gender = GENDERS[match[3]];
+  return true;
+}
+
+/**
+ * Apply trailing Robinson suffixes ("-C", "-S", "-N", "-ATT", ...).
+ */
+function applySuffixes(features: MorphFeatures, suffixes: string[]): boolean {
+  for (const suffix of suffixes) {
+    if (suffix === 'C' || suffix === 'S') {
+      features.degree = suffix === 'C' ? 'comparative' : 'superlative';
+    } else if (ROBINSON_SUFFIXES[suffix]) {
+      (features.qualifiers ??= []).push(ROBINSON_SUFFIXES[suffix]);
+    } else {
+      return false;
+    }
+  }
+  return true;
+}
+
+function decodeRobinsonVerb(features: MorphFeatures, parts: string[]): boolean {
+  const [tvm, png, ...suffixes] = parts;
+  const match = tvm?.match(/^(2?)([PIFARL])([AMPEDONQX])([ISOMNPR])$/);
+  if (!match) return false;
+
+  if (match[1]) features.secondForm = true;
+  features.tense = TENSES[match[2]];
+  features.voice = VOICES[match[3]];
+  features.mood = MOODS[match[4]];
+
+  if (png !== undefined) {
+    const person = png.match(/^([123])([SP])$/);
+    if (person) {
+      features.person = parseInt(person[1], 10) as Person;
+      features.number = NUMBERS[person[2]];
+    } else if (!applyCng(features, png)) {
+      return applySuffixes(features, [png, ...suffixes]);
+    }
+  }
+
+  return applySuffixes(features, suffixes);
+}
+
+/**
+ * Decode a Robinson code such as "V-2AAI-3S", "N-GSF" or "ADV-I".
+ * Returns null for codes outside the scheme.
+ */
+function decodeRobinson(code: string): MorphFeatures | null {
+  const [head, ...parts] = code.split('-');
+
+  if (ROBINSON_WORDS[head]) {
+    const features: MorphFeatures = { partOfSpeech: ROBINSON_WORDS[head] };
+    return applySuffixes(features, parts) ? features : null;
+  }
+
+  const partOfSpeech = ROBINSON_PARTS[head];
+  if (!partOfSpeech) return null;
+  const features: MorphFeatures = { partOfSpeech };
+
+  if (head === 'V') {
+    return decodeRobinsonVerb(features, parts) ? features : null;
+  }
+
+  const [inflection, ...suffixes] = parts;
+  if (inflection === undefined) return null;
+
+  const indeclinable = INDECLINABLE_KINDS[inflection];
+  if (indeclinable) {
+    features.indeclinable = true;
+    features.kind = indeclinable;
+    return applySuffixes(features, suffixes) ? features : null;
+  }
+
+  // Person-marked pronouns: "P-1NS" (personal), "F-3ASM" (reflexive), "S-1SNSM" (possessive)
+  const personal = inflection.match(/^([123])(.+)$/);
+  if (personal) {
+    features.person = parseInt(personal[1], 10) as Person;
+    let rest = personal[2];
+    if (head === 'S') {
+      if (!NUMBERS[rest[0]]) return null;
+      features.possessorNumber = NUMBERS[rest[0]];
+      rest = rest.slice(1);
+    }
+    return applyCng(features, rest) && applySuffixes(features, suffixes) ? features : null;
+  }
+
+  return applyCng(features, inflection) && applySuffixes(features, suffixes) ? features : null;
+}
+
+type StrongMorphForm = [stem: string, mood: Mood, voice?: Voice];
+
+/**
+ * Strong's Hebrew and Aramaic verb codes (TVM numbers 8680-8809): stem and form.
+ *
+ * Numbers are grouped by stem, and within a stem run through its forms in
+ * order (imperative, imperfect, infinitive, participle, perfect).
+ */
+const STRONG_MORPH: Record<number, StrongMorphForm> = {
+  8680: ['Haphel', 'imperative'], 8681: ['Haphel', 'imperfect'], 8682: ['Haphel', 'infinitive'],
+  8683: ['Haphel', 'participle'], 8684: ['Haphel', 'perfect'],
+  8685: ['Hiphil', 'imperative'], 8686: ['Hiphil', 'imperfect'], 8687: ['Hiphil', 'infinitive'],
+  8688: ['Hiphil', 'participle'], 8689: ['Hiphil', 'perfect'],
+  8690: ['Hithpael', 'imperative'], 8691: ['Hithpael', 'imperfect'], 8692: ['Hithpael', 'infinitive'],
+  8693: ['Hithpael', 'participle'], 8694: ['Hithpael', 'perfect'],
+  8695: ['Hithpalel', 'imperative'], 8696: ['Hithpalel', 'imperfect'],
+  8697: ['Hithpalpel', 'imperative'], 8698: ['Hithpalpel', 'imperfect'], 8699: ['Hithpalpel', 'infinitive'],
+  8700: ['Hithpalpel', 'participle'], 8701: ['Hithpalpel', 'perfect'],
+  8702: ['Hithpeal', 'perfect'],
+  8703: ['Hithpoel', 'imperative'], 8704: ['Hithpoel', 'imperfect'], 8705: ['Hithpoel', 'infinitive'],
+  8706: ['Hithpoel', 'participle'], 8707: ['Hithpoel', 'perfect'],
+  8708: ['Hithpolel', 'imperative'], 8709: ['Hithpolel', 'imperfect'], 8710: ['Hithpolel', 'infinitive'],
+  8711: ['Hithpolel', 'participle'], 8712: ['Hithpolel', 'perfect'],
+  8713: ['Hophal', 'imperative'], 8714: ['Hophal', 'imperfect'], 8715: ['Hophal', 'infinitive'],
+  8716: ['Hophal', 'participle'], 8717: ['Hophal', 'perfect'],
+  8718: ['Hothpaal', 'infinitive'], 8719: ['Hothpaal', 'perfect'],
+  8720: ['Ishtaphel', 'imperfect'],
+  8721: ['Ithpaal', 'imperfect'], 8722: ['Ithpaal', 'infinitive'], 8723: ['Ithpaal', 'participle'],
+  8724: ['Ithpaal', 'perfect'],
+  8725: ['Ithpeel', 'imperfect'], 8726: ['Ithpeel', 'infinitive'], 8727: ['Ithpeel', 'participle'],
+  8728: ['Ithpeel', 'perfect'], 8729: ['Ithpeel', 'imperfect'], 8730: ['Ithpeel', 'perfect'],
+  8731: ['Ithpeel', 'imperfect'], 8732: ['Ithpeel', 'participle'],
+  8733: ['Ithpoel', 'perfect'],
+  8734: ['Niphal', 'imperative'], 8735: ['Niphal', 'imperfect'], 8736: ['Niphal', 'infinitive'],
+  8737: ['Niphal', 'participle'], 8738: ['Niphal', 'perfect'],
+  8739: ['Nithpael', 'perfect'],
+  8740: ['Pael', 'imperative'], 8741: ['Pael', 'imperfect'], 8742: ['Pael', 'infinitive'],
+  8743: ['Pael', 'participle'], 8744: ['Pael', 'participle', 'passive'], 8745: ['Pael', 'perfect'],
+  8746: ['Pulpal', 'imperfect'],
+  8747: ['Peal', 'imperative'], 8748: ['Peal', 'imperfect'], 8749: ['Peal', 'infinitive'],
+  8750: ['Peal', 'participle'], 8751: ['Peal', 'participle', 'active'], 8752: ['Peal', 'participle', 'passive'],
+  8753: ['Peil', 'perfect'], 8754: ['Peal', 'perfect'],
+  8755: ['Shaphel', 'imperfect'], 8756: ['Shaphel', 'infinitive'], 8757: ['Shaphel', 'participle'],
+  8758: ['Shaphel', 'perfect'],
+  8759: ['Peil', 'participle'], 8760: ['Peil', 'perfect'],
+  8761: ['Piel', 'imperative'], 8762: ['Piel', 'imperfect'], 8763: ['Piel', 'infinitive'],
+  8764: ['Piel', 'participle'], 8765: ['Piel', 'perfect'],
+  8766: ['Pilel', 'imperfect'], 8767: ['Pilel', 'participle'], 8768: ['Pilel', 'perfect'],
+  8769: ['Pilpel', 'imperative'], 8770: ['Pilpel', 'imperfect'], 8771: ['Pilpel', 'infinitive'],
+  8772: ['Pilpel', 'participle'], 8773: ['Pilpel', 'perfect'],
+  8774: ['Poal', 'infinitive'], 8775: ['Poal', 'participle'], 8776: ['Poal', 'perfect'],
+  8777: ['Pealal', 'perfect'],
+  8778: ['Poel', 'imperative'], 8779: ['Poel', 'imperfect'], 8780: ['Poel', 'infinitive'],
+  8781: ['Poel', 'participle'], 8782: ['Poel', 'perfect'],
+  8783: ['Polal', 'imperfect'], 8784: ['Polal', 'participle'], 8785: ['Polal', 'perfect'],
+  8786: ['Polel', 'imperative'], 8787: ['Polel', 'imperfect'], 8788: ['Polel', 'infinitive'],
+  8789: ['Polel', 'participle'], 8790: ['Polel', 'perfect'],
+  8791: ['Pulpal', 'perfect'],
+  8792: ['Pual', 'imperfect'], 8793: ['Pual', 'infinitive'], 8794: ['Pual', 'participle'],
+  8795: ['Pual', 'perfect'],
+  8796: ['Pulal', 'participle'], 8797: ['Pulal', 'perfect'],
+  8798: ['Qal', 'imperative'], 8799: ['Qal', 'imperfect'], 8800: ['Qal', 'infinitive'],
+  8801: ['Qal', 'participle'], 8802: ['Qal', 'participle', 'active'], 8803: ['Qal', 'participle', 'passive'],
+  8804: ['Qal', 'perfect'],
+  8805: ['Shaphel', 'infinitive'], 8806: ['Shaphel', 'perfect'],
+  8807: ['Tiphel', 'imperfect'], 8808: ['Tiphel', 'participle'], 8809: ['Tiphel', 'perfect'],
+};
+
+/**
+ * Strong's numbers that separate the analyses of alternative readings
+ * (e.g. a written and a read form) rather than describe a form. 8677 and
+ * 8678 mark the second and third alternatives of words with more than two.
+ */
+const STRONG_MORPH_VARIANTS = new Set([8675, 8676, 8677, 8678]);
+
+/**
+ * Decode a Strong's verb code such as "TH8799". Returns null for unknown codes.
+ */
+function decodeStrongMorph(code: string): MorphFeatures | null {
+  const match = code.match(/^TH(\d{4})$/);
+  if (!match) return null;
+  const number = parseInt(match[1], 10);
+
+  if (STRONG_MORPH_VARIANTS.has(number)) {
+    return { variant: true };
+  }
+
+  const form = STRONG_MORPH[number];
+  if (!form) return null;
+
+  const [stem, mood, voice] = form;
+  return { partOfSpeech: 'verb', stem, mood, ...(voice && { voice }) };
+}
+
+const PERSONS = ['first', 'second', 'third'];
+
+/**
+ * Describe decoded features in words.
+ */
+function describeFeatures(features: MorphFeatures): string {
+  if (features.variant) return 'alternative reading';
+
+  const parts: string[] = [];
+
+  const verbal = [
+    features.stem,
+    features.secondForm ? `second ${features.tense}` : features.tense,
+    features.voice,
+    features.mood,
+  ].filter(Boolean).join(' ');
+  if (verbal) parts.push(verbal);
+
+  const inflection = [
+    features.person && `${PERSONS[features.person - 1]} person`,
+    features.possessorNumber && `${features.possessorNumber} possessor`,
+    features.case,
+    features.number,
+    features.gender,
+  ].filter(Boolean).join(' ');
+  if (inflection) parts.push(inflection);
+
+  if (features.kind) parts.push(`indeclinable ${features.kind}`);
+  if (features.degree) parts.push(features.degree);
+  parts.push(...(features.qualifiers ?? []));
+
+  return [features.partOfSpeech ?? 'unknown', ...parts].join(', ');
+}
+
+/**
+ * Decode a single morphology code.
+ *
+ * The scheme is taken from the code's prefix ("robinson:", "strongMorph:");
+ * unprefixed codes are treated as Strong's when they look like "TH8799" and
+ * as Robinson otherwise. Unknown codes decode to empty features with the raw
+ * code as their description.
+ */
+export function decodeMorphCode(value: string): MorphologyEntry {
+  const separator = value.indexOf(':');
+  const prefix = separator >= 0 ? value.slice(0, separator) : null;
+  const code = separator >= 0 ? value.slice(separator + 1) : value;
+  const scheme: MorphScheme =
+    prefix === 'strongMorph' || (prefix === null && /^TH\d+$/.test(code)) ? 'strongMorph' : 'robinson';
+
+  const features = scheme === 'strongMorph' ? decodeStrongMorph(code) : decodeRobinson(code);
+  if (!features) {
+    return { scheme, code, features: {}, description: code };
+  }
+
+  return { scheme, code, features, description: describeFeatures(features) };
+}
+
+/**
+ * Decode a word's morph attribute, which may hold several space-separated codes.
+ */
+export function decodeMorph(value: string | null | undefined): MorphologyEntry[] {
+  if (!value) return [];
+  return value.trim().split(/\s+/).map(decodeMorphCode);
+}
+
+/**
+ * Describe a word's morph attribute in words, e.g. "verb, Qal imperfect".
+ */
+export function describeMorph(value: string | null | undefined): string {
+  return decodeMorph(value).map(entry => entry.description).join('; ');
+}
+
+/**
+ * Return a copy of a verse with each coded word's `morphology` decoded.
+ */
+export function withMorphology<V extends { words: Array<{ morph?: string | null }> }>(verse: V): V {
+  return {
+    ...verse,
+    words: verse.words.map(word => (word.morph ? { ...word, morphology: decodeMorph(word.morph) } : word)),
+  };
+}
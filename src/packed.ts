@@ -0,0 +1,145 @@
+/**
+ * Packed storage format for crosswire-KJV.
+ *
+ * Each book is stored as one newline-delimited JSON file (one verse per line)
+ * plus an offset index, so a verse or a whole chapter is a single ranged read
+ * instead of one file per verse.
+ *
+ *   packed/<Book>.jsonl        minified VerseData, one verse per line
+ *   packed/<Book>.index.json   byte offsets and lengths per chapter/verse
+ *
+ * Files are read through a data backend (the active one unless given).
+ */
+
+import type { VerseData } from '@metaxia/scriptures-core';
+import { getDataBackend, type DataBackend } from './backend.js';
+
+/**
+ * Directory (relative to the edition data path) holding packed books.
+ */
+export const PACKED_DIR = 'packed';
+
+/**
+ * Offset index for a packed book.
+ *
+ * `chapters[chapter][verse - 1]` is the `[byteOffset, byteLength]` of that
+ * verse's line in the book's `.jsonl` file (newline excluded).
+ */
+export interface PackedIndex {
+  book: string;
+  chapters: Record<string, Array<[number, number]>>;
+}
+
+/**
+ * A verse ready to be packed.
+ */
+export interface PackableVerse {
+  chapter: number;
+  verse: number;
+  data: unknown;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Serialize a book's verses into packed content and its offset index.
+ *
+ * Verses are sorted by chapter and verse so that every chapter occupies a
+ * contiguous byte range.
+ */
+export function packBook(book: string, verses: PackableVerse[]): { content: string; index: PackedIndex } {
+  const sorted = [...verses].sort((a, b) => a.chapter - b.chapter || a.verse - b.verse);
+  const index: PackedIndex = { book, chapters: {} };
+  const lines: string[] = [];
+  let offset = 0;
+
+  for (const { chapter, verse, data } of sorted) {
+    const line = JSON.stringify(data);
+    const length = encoder.encode(line).length;
+    const entries = (index.chapters[String(chapter)] ??= []);
+    entries[verse - 1] = [offset, length];
+    lines.push(line);
+    offset += length + 1;
+  }
+
+  return { content: lines.map(line => `${line}\n`).join(''), index };
+}
+
+// Per backend, so that switching backends never serves another backend's index
+const indexCache = new WeakMap<DataBackend, Map<string, PackedIndex | null>>();
+
+/**
+ * Load a packed book index, or null when the book has not been packed.
+ */
+export async function loadPackedIndex(packedPath: string, book: string, backend?: DataBackend): Promise<PackedIndex | null> {
+  const source = backend ?? await getDataBackend();
+  let cache = indexCache.get(source);
+  if (!cache) {
+    cache = new Map();
+    indexCache.set(source, cache);
+  }
+
+  const path = `${packedPath}/${book}.index.json`;
+  if (cache.has(path)) {
+    return cache.get(path) ?? null;
+  }
+
+  const content = await source.readText(path);
+  const index: PackedIndex | null = content === null ? null : JSON.parse(content);
+  cache.set(path, index);
+  return index;
+}
+
+/**
+ * Read a single verse from the packed layout.
+ *
+ * Returns null when the book is not packed; throws when the book is packed
+ * but the verse does not exist.
+ */
+export async function readPackedVerse(
+  packedPath: string,
+  book: string,
+  chapter: number,
+  verse: number,
+  backend?: DataBackend
+): Promise<VerseData | null> {
+  const source = backend ?? await getDataBackend();
+  const index = await loadPackedIndex(packedPath, book, source);
+  if (!index) return null;
+
+  const entry = index.chapters[String(chapter)]?.[verse - 1];
+  if (!entry) {
+    throw new Error(`Verse ${book} ${chapter}:${verse} is not in the packed index`);
+  }
+
+  const [offset, length] = entry;
+  return JSON.parse(await source.readRange(`${packedPath}/${book}.jsonl`, offset, length));
+}
+
+/**
+ * Read every verse in a chapter from the packed layout with one ranged read.
+ *
+ * Returns null when the book is not packed; throws when the book is packed
+ * but the chapter does not exist.
+ */
+export async function readPackedChapter(
+  packedPath: string,
+  book: string,
+  chapter: number,
+  backend?: DataBackend
+): Promise<VerseData[] | null> {
+  const source = backend ?? await getDataBackend();
+  const index = await loadPackedIndex(packedPath, book, source);
+  if (!index) return null;
+
+  const entries = index.chapters[String(chapter)]?.filter(Boolean);
+  if (!entries || entries.length === 0) {
+    throw new Error(`Chapter ${book} ${chapter} is not in the packed index`);
+  }
+
+  const start = entries[0][0];
+  const [lastOffset, lastLength] = entries[entries.length - 1];
+  const content = await source.readRange(`${packedPath}/${book}.jsonl`, start, lastOffset + lastLength - start);
+
+  return content.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
@@ -0,0 +1,234 @@
+/**
+ * Passage reference parsing and loading for crosswire-KJV.
+ *
+ * Accepts human references ("John 3:16-18; Rom 8; Ps 119:105-112",
+ * "Gen 1:26-2:3", "John 3:16, 18") and OSIS references ("John.3.16",
+ * "Gen.1.26-Gen.2.3", "Rom.8").
+ */
+
+import type { VerseData } from '@metaxia/scriptures-core';
+import { toOsis, resolveBook, loadChapter, getVerseCount } from './source.js';
+
+/**
+ * A contiguous range within one book.
+ *
+ * `startVerse`/`endVerse` are undefined for whole-chapter ranges.
+ */
+export interface PassageRange {
+  /** English book name */
+  book: string;
+  startChapter: number;
+  startVerse?: number;
+  endChapter: number;
+  endVerse?: number;
+}
+
+/**
+ * A verse in a loaded passage.
+ */
+export interface PassageVerse {
+  book: string;
+  chapter: number;
+  verse: number;
+  data: VerseData;
+}
+
+/**
+ * Verses of a passage that fall in one chapter.
+ */
+export interface PassageChapter {
+  book: string;
+  chapter: number;
+  verses: PassageVerse[];
+}
+
+const DASH_RE = /\s*[-–—]\s*/;
+const OSIS_REF_RE = /^[1-3]?[A-Za-z]+\.\d+(?:\.\d+)?(?:[-–—](?:[1-3]?[A-Za-z]+\.)?\d+(?:\.\d+)?)?$/;
+
+/**
+ * Whether a book has a single chapter, so "Jude 3" means verse 3.
+ */
+function isSingleChapterBook(book: string): boolean {
+  return ['Obad', 'Phlm', '2John', '3John', 'Jude'].includes(toOsis(book));
+}
+
+interface ChapterVerse {
+  chapter: number;
+  verse?: number;
+}
+
+function parseNumberPair(value: string, reference: string): { first: number; second?: number } {
+  const match = value.match(/^(\d+)(?:[:.](\d+))?$/);
+  if (!match) {
+    throw new Error(`Invalid passage reference '${reference}'`);
+  }
+  return { first: parseInt(match[1], 10), second: match[2] !== undefined ? parseInt(match[2], 10) : undefined };
+}
+
+/**
+ * Convert an OSIS reference into a book and human-style spec.
+ */
+function splitOsisRef(part: string): { book: string; spec: string } {
+  const [start, end] = part.split(/[-–—]/);
+  const [book, ...startRest] = start.split('.');
+  let spec = startRest.join(':');
+
+  if (end !== undefined) {
+    const endParts = end.split('.');
+    if (/^[1-3]?[A-Za-z]+$/.test(endParts[0])) {
+      if (endParts.shift() !== book) {
+        throw new Error(`Passage ranges across books are not supported: '${part}'`);
+      }
+    }
+    spec += `-${endParts.join(':')}`;
+  }
+
+  return { book, spec };
+}
+
+/**
+ * Parse a passage reference into ranges.
+ *
+ * Parts separated by ";" may omit the book to continue the previous one.
+ * Items separated by "," continue the previous chapter ("John 3:16, 18").
+ */
+export function parsePassage(reference: string): PassageRange[] {
+  const ranges: PassageRange[] = [];
+  let book: string | null = null;
+
+  for (const rawPart of reference.split(';')) {
+    const part = rawPart.trim();
+    if (!part) continue;
+
+    let spec: string;
+    if (OSIS_REF_RE.test(part)) {
+      const osis = splitOsisRef(part);
+      book = resolveBook(osis.book).name;
+      spec = osis.spec;
+    } else {
+      const match = part.match(/^(.*?[A-Za-z])\.?\s*(\d.*)?$/);
+      if (match) {
+        book = resolveBook(match[1]).name;
+        spec = (match[2] ?? '').trim();
+      } else if (book) {
+        spec = part;
+      } else {
+        throw new Error(`Invalid passage reference '${reference}': missing book`);
+      }
+    }
+
+    if (!spec) {
+      throw new Error(`Invalid passage reference '${reference}': missing chapter`);
+    }
+
+    const singleChapter = isSingleChapterBook(book);
+    let context: ChapterVerse | null = null;
+
+    for (const rawItem of spec.split(',')) {
+      const [left, right, ...extra] = rawItem.trim().split(DASH_RE);
+      if (!left || extra.length > 0) {
+        throw new Error(`Invalid passage reference '${reference}'`);
+      }
+
+      const startPair = parseNumberPair(left, reference);
+      let start: ChapterVerse;
+      if (startPair.second !== undefined) {
+        start = { chapter: startPair.first, verse: startPair.second };
+      } else if (context?.verse !== undefined) {
+        start = { chapter: context.chapter, verse: startPair.first };
+      } else if (singleChapter) {
+        start = { chapter: 1, verse: startPair.first };
+      } else {
+        start = { chapter: startPair.first };
+      }
+
+      let end: ChapterVerse = start;
+      if (right !== undefined) {
+        const endPair = parseNumberPair(right, reference);
+        if (endPair.second !== undefined) {
+          end = { chapter: endPair.first, verse: endPair.second };
+        } else if (start.verse !== undefined) {
+          end = { chapter: start.chapter, verse: endPair.first };
+        } else {
+          end = { chapter: endPair.first };
+        }
+      }
+
+      if (start.verse === undefined && end.verse !== undefined) {
+        start = { chapter: start.chapter, verse: 1 };
+      }
+
+      if (end.chapter < start.chapter || (end.chapter === start.chapter && (end.verse ?? 0) < (start.verse ?? 0))) {
+        throw new Error(`Invalid passage reference '${reference}': range ends before it starts`);
+      }
+
+      ranges.push({
+        book,
+        startChapter: start.chapter,
+        startVerse: start.verse,
+        endChapter: end.chapter,
+        endVerse: end.verse,
+      });
+      context = end;
+    }
+  }
+
+  if (ranges.length === 0) {
+    throw new Error(`Invalid passage reference '${reference}'`);
+  }
+
+  return ranges;
+}
+
+/**
+ * Load every verse of a passage, grouped by chapter in reference order.
+ *
+ * Chapters and verses are validated against the KJV versification; a
+ * reference to a chapter or verse that does not exist throws.
+ */
+export async function loadPassage(reference: string): Promise<PassageChapter[]> {
+  const ranges = parsePassage(reference);
+  const chapterCache = new Map<string, VerseData[]>();
+  const groups: PassageChapter[] = [];
+
+  async function getChapter(book: string, chapter: number): Promise<VerseData[]> {
+    const key = `${book} ${chapter}`;
+    let verses = chapterCache.get(key);
+    if (!verses) {
+      try {
+        await getVerseCount(book, chapter);
+      } catch {
+        throw new Error(`Chapter ${book} ${chapter} does not exist in crosswire-KJV`);
+      }
+      verses = await loadChapter(book, chapter);
+      chapterCache.set(key, verses);
+    }
+    return verses;
+  }
+
+  for (const range of ranges) {
+    for (let chapter = range.startChapter; chapter <= range.endChapter; chapter++) {
+      const verses = await getChapter(range.book, chapter);
+      const from = chapter === range.startChapter ? range.startVerse ?? 1 : 1;
+      const to = chapter === range.endChapter ? range.endVerse ?? verses.length : verses.length;
+
+      for (const verse of [from, to]) {
+        if (verse < 1 || verse > verses.length) {
+          throw new Error(`Verse ${range.book} ${chapter}:${verse} does not exist in crosswire-KJV`);
+        }
+      }
+
+      let group = groups[groups.length - 1];
+      if (!group || group.book !== range.book || group.chapter !== chapter) {
+        group = { book: range.book, chapter, verses: [] };
+        groups.push(group);
+      }
+
+      for (let verse = from; verse <= to; verse++) {
+        group.verses.push({ book: range.book, chapter, verse, data: verses[verse - 1] });
+      }
+    }
+  }
+
+  return groups;
+}
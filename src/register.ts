@@ -2,16 +2,17 @@
  * Lazy registration entry point.
  *
  * Import this to register the source without loading all data upfront.
+ * Verses are read on demand and cached; use `configureVerseCache` to set
+ * the cache budget and `preload` to warm it.
  */
 
 import { registerSource } from '@metaxia/scriptures-core';
-import { sourceInfo, loadVerse, loadChapter, loadCache, listBooks } from './source.js';
+import { createSource } from './source.js';
 
-registerSource({
-  edition: sourceInfo.edition,
-  metadata: sourceInfo.metadata,
-  loadVerse,
-  loadChapter,
-  loadCache,
-  listBooks,
-});
+registerSource(createSource());
+
+export { createSource, configureVerseCache, getVerseCacheStats, clearVerseCache, preload } from './source.js';
+export type { SourceOptions, VerseCacheOptions } from './source.js';
+export type { CacheStats } from './cache.js';
+export { createFetchBackend, createMemoryBackend, setDataBackend, getDataBackend } from './backend.js';
+export type { DataBackend, FetchBackendOptions } from './backend.js';
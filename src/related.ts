@@ -0,0 +1,179 @@
+/**
+ * Related verses for crosswire-KJV, found through shared Strong's numbers.
+ *
+ * Each verse is treated as the set of original-language lemmas (Strong's
+ * numbers) tagged in it, weighted by inverse document frequency, so sharing
+ * a rare lemma counts for much more than sharing a common one (e.g. the
+ * article or a conjunction). Verses are ranked by the cosine similarity of
+ * these weighted sets.
+ *
+ * The model is built once from the Strong's concordance (`cache/strongs.json`)
+ * on first use; each lookup then only visits the verses that share a lemma
+ * with the reference.
+ */
+
+import { fromOsis, toOsis, getTestament, getVerseCount, listOsisBooks, type Testament } from './source.js';
+import { loadStrongsIndex, type StrongsIndex } from './strongs.js';
+import { onDataBackendChange } from './backend.js';
+
+/**
+ * TF-IDF model over the Strong's numbers of every tagged verse.
+ */
+export interface RelatedIndex {
+  /** Distinct Strong's numbers in each verse, keyed by OSIS reference */
+  verses: Map<string, string[]>;
+  /** Verses containing each Strong's number */
+  postings: Map<string, string[]>;
+  /** Inverse document frequency of each Strong's number */
+  idf: Map<string, number>;
+  /** Length of each verse's weight vector */
+  norms: Map<string, number>;
+}
+
+/**
+ * Options for finding related verses.
+ */
+export interface RelatedOptions {
+  /** Maximum number of results (default 10) */
+  limit?: number;
+  /** Only verses in these books (names or OSIS IDs) */
+  books?: string[];
+  /** Only verses in this testament */
+  testament?: Testament;
+}
+
+/**
+ * A verse related to the reference verse.
+ */
+export interface RelatedVerse {
+  /** English book name */
+  book: string;
+  /** OSIS reference, e.g. "1John.4.9" */
+  osisRef: string;
+  chapter: number;
+  verse: number;
+  /** Cosine similarity, from 0 (nothing shared) to 1 */
+  score: number;
+  /** Strong's numbers shared with the reference, rarest first */
+  shared: string[];
+}
+
+const DEFAULT_LIMIT = 10;
+
+/**
+ * Build the related-verse model from a Strong's concordance.
+ */
+export function buildRelatedIndex(strongs: StrongsIndex): RelatedIndex {
+  const verses = new Map<string, string[]>();
+  const postings = new Map<string, string[]>();
+
+  for (const [number, refs] of Object.entries(strongs)) {
+    const osisRefs = Object.keys(refs);
+    postings.set(number, osisRefs);
+    for (const osisRef of osisRefs) {
+      const numbers = verses.get(osisRef);
+      if (numbers) {
+        numbers.push(number);
+      } else {
+        verses.set(osisRef, [number]);
+      }
+    }
+  }
+
+  const idf = new Map<string, number>();
+  for (const [number, osisRefs] of postings) {
+    idf.set(number, Math.log(verses.size / osisRefs.length));
+  }
+
+  const norms = new Map<string, number>();
+  for (const [osisRef, numbers] of verses) {
+    norms.set(osisRef, Math.sqrt(numbers.reduce((total, number) => total + idf.get(number)! ** 2, 0)));
+  }
+
+  return { verses, postings, idf, norms };
+}
+
+/**
+ * Rank the verses related to `osisRef` (e.g. "John.3.16") by their shared
+ * lemmas, best first, then in canonical order.
+ */
+export function rankRelated(index: RelatedIndex, osisRef: string, options: RelatedOptions = {}): RelatedVerse[] {
+  const numbers = index.verses.get(osisRef);
+  const norm = index.norms.get(osisRef);
+  if (!numbers || !norm) return [];
+
+  const bookFilter = options.books ? new Set(options.books.map(toOsis)) : null;
+  const include = (ref: string): boolean => {
+    const book = ref.slice(0, ref.indexOf('.'));
+    if (bookFilter && !bookFilter.has(book)) return false;
+    if (options.testament && getTestament(book) !== options.testament) return false;
+    return true;
+  };
+
+  const matches = new Map<string, { dot: number; shared: string[] }>();
+  for (const number of numbers) {
+    const weight = index.idf.get(number)! ** 2;
+    if (weight === 0) continue;
+
+    for (const ref of index.postings.get(number)!) {
+      if (ref === osisRef || !include(ref)) continue;
+      const match = matches.get(ref);
+      if (match) {
+        match.dot += weight;
+        match.shared.push(number);
+      } else {
+        matches.set(ref, { dot: weight, shared: [number] });
+      }
+    }
+  }
+
+  const bookOrder = new Map(listOsisBooks().map((book, i) => [book, i]));
+  const results: RelatedVerse[] = [...matches].map(([ref, { dot, shared }]) => {
+    const [book, chapter, verse] = ref.split('.');
+    return {
+      book: fromOsis(book),
+      osisRef: ref,
+      chapter: parseInt(chapter, 10),
+      verse: parseInt(verse, 10),
+      score: dot / (norm * index.norms.get(ref)!),
+      shared: shared.sort((a, b) => index.idf.get(b)! - index.idf.get(a)!),
+    };
+  });
+
+  results.sort((a, b) =>
+    b.score - a.score ||
+    bookOrder.get(toOsis(a.book))! - bookOrder.get(toOsis(b.book))! ||
+    a.chapter - b.chapter ||
+    a.verse - b.verse
+  );
+
+  return results.slice(0, options.limit ?? DEFAULT_LIMIT);
+}
+
+let indexPromise: Promise<RelatedIndex> | null = null;
+
+function loadRelatedIndex(): Promise<RelatedIndex> {
+  indexPromise ??= loadStrongsIndex().then(buildRelatedIndex).catch(error => {
+    indexPromise = null;
+    throw error;
+  });
+  return indexPromise;
+}
+
+onDataBackendChange(() => {
+  indexPromise = null;
+});
+
+/**
+ * Find verses that share original-language lemmas with a verse, ranked by
+ * TF-IDF similarity. Verses without Strong's numbers have no related verses.
+ */
+export async function findRelatedVerses(book: string, chapter: number, verse: number, options: RelatedOptions = {}): Promise<RelatedVerse[]> {
+  const osisBook = toOsis(book);
+  const verseCount = await getVerseCount(book, chapter);
+  if (verse < 1 || verse > verseCount) {
+    throw new Error(`Verse ${book} ${chapter}:${verse} not found in crosswire-KJV`);
+  }
+
+  return rankRelated(await loadRelatedIndex(), `${osisBook}.${chapter}.${verse}`, options);
+}
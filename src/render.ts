@@ -0,0 +1,481 @@
+/**
+ * Rendering of crosswire-KJV verses and chapters.
+ *
+ * Formats:
+ *   - text:     plain text (the divine name as printed, in capitals)
+ *   - html:     supplied words in <i>, divine name and words of Christ in
+ *               classed <span>s, optional Strong's links
+ *   - markdown: supplied words in *italics*, divine name in an inline HTML
+ *               <span class="divine-name">
+ *   - usfm:     \v markers with \add, \nd and \wj character styles
+ *   - osis:     <verse> milestones with <w>, <transChange>, <divineName>,
+ *               nested <q>, <note> and break milestone markup that the
+ *               importer reads back into the same words (see renderOsis)
+ *
+ * Words are joined with their punctuation and spacing (see tokens.ts); markup
+ * wraps the bare words, leaving punctuation outside it (legacy words with
+ * punctuation in `text` are split first). OSIS keeps punctuation inside <q>.
+ */
+
+import { toOsis, type KjvVerseData, type KjvWord, type VerseBreak, type VerseNote } from './source.js';
+import { getWordLemmas } from './lemma.js';
+import { getSpaceBefore, getWordForm, splitPunctuation } from './tokens.js';
+import { getWordGroups } from './words.js';
+
+export type RenderFormat = 'text' | 'html' | 'markdown' | 'usfm' | 'osis';
+
+/**
+ * How to render words supplied by the translators (OSIS `transChange`).
+ *
+ * - mark:    the format's own markup (italics in HTML and Markdown, \add in
+ *            USFM, <transChange> in OSIS; none in plain text)
+ * - bracket: enclose in square brackets
+ * - omit:    leave out
+ * - plain:   render like any other word
+ */
+export type SuppliedStyle = 'mark' | 'bracket' | 'omit' | 'plain';
+
+/**
+ * Options for rendering verses and chapters.
+ */
+export interface RenderOptions {
+  /** Supplied words (default 'mark') */
+  supplied?: SuppliedStyle;
+  /** Include colophon words, e.g. the subscription after Romans 16:27 (default true) */
+  colophons?: boolean;
+  /** HTML only: link each word with Strong's numbers to this URL */
+  strongsHref?: (strongs: string[]) => string;
+}
+
+/**
+ * A verse's place in a book, used for verse markers.
+ */
+export interface VerseReference {
+  /** Book name or OSIS ID */
+  book: string;
+  chapter: number;
+  verse: number;
+}
+
+/**
+ * Options for rendering one verse.
+ */
+export interface RenderVerseOptions extends RenderOptions {
+  /** Adds the verse marker: "16 ", <sup>16</sup>, **16**, \v 16 or an OSIS <verse> milestone */
+  reference?: VerseReference;
+}
+
+/**
+ * A run of consecutive words sharing supplied and words-of-Christ styling.
+ */
+interface Run {
+  supplied: boolean;
+  wordsOfChrist: boolean;
+  words: KjvWord[];
+}
+
+function isSupplied(word: KjvWord): boolean {
+  return word.metadata?.type === 'added';
+}
+
+function isColophon(word: KjvWord): boolean {
+  return word.metadata?.colophon === true;
+}
+
+function isWordsOfChrist(word: KjvWord): boolean {
+  return word.metadata?.words_of_christ === true;
+}
+
+function isDivineName(word: KjvWord): boolean {
+  return word.metadata?.divine_name === true;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/([\\*_[\]`])/g, '\\$1');
+}
+
+/**
+ * Words to render, in order, after applying the supplied and colophon options.
+ */
+function selectWords(verse: KjvVerseData, options: RenderOptions): KjvWord[] {
+  return verse.words.filter((word: KjvWord) =>
+    !(options.colophons === false && isColophon(word)) &&
+    !(options.supplied === 'omit' && isSupplied(word)));
+}
+
+function toRuns(words: KjvWord[]): Run[] {
+  const runs: Run[] = [];
+  for (const word of words) {
+    const supplied = isSupplied(word);
+    const wordsOfChrist = isWordsOfChrist(word);
+    const last = runs[runs.length - 1];
+    if (last && last.supplied === supplied && last.wordsOfChrist === wordsOfChrist) {
+      last.words.push(word);
+    } else {
+      runs.push({ supplied, wordsOfChrist, words: [word] });
+    }
+  }
+  return runs;
+}
+
+/**
+ * Move punctuation kept in a legacy word's `text` into `leading` and `trailing`.
+ */
+function splitWord(word: KjvWord): KjvWord {
+  const { leading, text, trailing } = splitPunctuation(getWordForm(word));
+  if (!text) return word;
+  return { ...word, leading: leading || undefined, text, trailing: trailing || undefined };
+}
+
+/**
+ * Render words in runs, with each word's spacing. Punctuation before the
+ * first and after the last word of a run goes outside the run's markup.
+ */
+function renderRuns(
+  words: KjvWord[],
+  renderWord: (word: KjvWord) => string,
+  wrapRun: (run: Run, content: string) => string,
+  escape: (punctuation: string) => string = punctuation => punctuation,
+): string {
+  let result = '';
+  let start = 0;
+  for (const run of toRuns(words)) {
+    const bare = run.words.map(splitWord);
+    const last = bare.length - 1;
+    const leading = bare[0].leading ?? '';
+    const trailing = bare[last].trailing ?? '';
+    bare[0] = { ...bare[0], leading: undefined };
+    bare[last] = { ...bare[last], trailing: undefined };
+
+    const content = bare.map((word, i) => (i > 0 ? getSpaceBefore(words, start + i) : '') + renderWord(word)).join('');
+    result += getSpaceBefore(words, start) + escape(leading) + wrapRun(run, content) + escape(trailing);
+    start += run.words.length;
+  }
+  return result;
+}
+
+/**
+ * Wrap a word's bare text in markup, keeping its punctuation outside.
+ */
+function withPunctuation(word: KjvWord, text: string): string {
+  return `${word.leading ?? ''}${text}${word.trailing ?? ''}`;
+}
+
+function bracket(content: string): string {
+  return `[${content}]`;
+}
+
+function renderText(verse: KjvVerseData, options: RenderOptions): string {
+  return renderRuns(selectWords(verse, options), getWordForm, (run, content) =>
+    run.supplied && options.supplied === 'bracket' ? bracket(content) : content);
+}
+
+function renderHtml(verse: KjvVerseData, options: RenderOptions, book: string | undefined): string {
+  const renderWord = (word: KjvWord): string => {
+    let html = escapeXml(word.text);
+    if (isDivineName(word)) {
+      html = `<span class="divine-name">${html}</span>`;
+    }
+    if (options.strongsHref) {
+      // Without a book, unprefixed numbers in the raw lemma cannot be read
+      const strongs = book ? getWordLemmas(word, book).map(entry => entry.strongs) : word.strongs ?? [];
+      if (strongs.length > 0) {
+        html = `<a href="${escapeXml(options.strongsHref(strongs))}">${html}</a>`;
+      }
+    }
+    return escapeXml(word.leading ?? '') + html + escapeXml(word.trailing ?? '');
+  };
+
+  return renderRuns(selectWords(verse, options), renderWord, (run, content) => {
+    let html = content;
+    if (run.supplied && (options.supplied ?? 'mark') === 'mark') html = `<i>${html}</i>`;
+    if (run.supplied && options.supplied === 'bracket') html = bracket(html);
+    if (run.wordsOfChrist) html = `<span class="words-of-christ">${html}</span>`;
+    return html;
+  }, escapeXml);
+}
+
+function renderMarkdown(verse: KjvVerseData, options: RenderOptions): string {
+  const renderWord = (word: KjvWord): string => {
+    const text = escapeMarkdown(word.text);
+    return escapeMarkdown(word.leading ?? '') +
+      (isDivineName(word) ? `<span class="divine-name">${text}</span>` : text) +
+      escapeMarkdown(word.trailing ?? '');
+  };
+
+  return renderRuns(selectWords(verse, options), renderWord, (run, content) => {
+    if (run.supplied && (options.supplied ?? 'mark') === 'mark') return `*${content}*`;
+    if (run.supplied && options.supplied === 'bracket') return bracket(content);
+    return content;
+  }, escapeMarkdown);
+}
+
+function renderUsfm(verse: KjvVerseData, options: RenderOptions): string {
+  const renderWord = (word: KjvWord): string => withPunctuation(word, isDivineName(word) ? `\\nd ${word.text}\\nd*` : word.text);
+
+  return renderRuns(selectWords(verse, options), renderWord, (run, content) => {
+    let usfm = content;
+    if (run.supplied && (options.supplied ?? 'mark') === 'mark') usfm = `\\add ${usfm}\\add*`;
+    if (run.supplied && options.supplied === 'bracket') usfm = bracket(usfm);
+    if (run.wordsOfChrist) usfm = `\\wj ${usfm}\\wj*`;
+    return usfm;
+  });
+}
+
+function renderAttributes(attrs: Record<string, string> | undefined): string {
+  return Object.entries(attrs ?? {})
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join('');
+}
+
+function renderNote(note: VerseNote): string {
+  const attrs: Record<string, string> = {};
+  if (note.type) attrs.type = note.type;
+  if (note.n) attrs.n = note.n;
+  if (note.osisRef) attrs.osisRef = note.osisRef;
+  if (note.osisID) attrs.osisID = note.osisID;
+  const catchWord = note.catchWord ? `<catchWord>${escapeXml(note.catchWord)}</catchWord> ` : '';
+  return `<note${renderAttributes(attrs)}>${catchWord}${escapeXml(note.text)}</note>`;
+}
+
+/**
+ * Render one word (or transChange entry) as OSIS.
+ */
+function renderOsisWord(word: KjvWord, options: RenderOptions): string {
+  let text = escapeXml(word.text);
+  if (isDivineName(word)) text = `<divineName>${text}</divineName>`;
+
+  if (isSupplied(word)) {
+    if (options.supplied === 'bracket') return withPunctuation(word, bracket(text));
+    if (options.supplied === 'plain') return withPunctuation(word, text);
+    const attrs = word.source?.attrs ?? { type: 'added' };
+    return withPunctuation(word, `<transChange${renderAttributes(attrs)}>${text}</transChange>`);
+  }
+  if (!word.source?.attrs && !word.source?.lemma) return withPunctuation(word, text);
+  return withPunctuation(word, `<w${renderAttributes(word.source.attrs)}>${text}</w>`);
+}
+
+/**
+ * Render the words of one group (see getWordGroups) as a single <w>, so the
+ * importer splits them into the same words and group again. `words` is the
+ * list the group is part of, starting at `start`, for spacing.
+ */
+function renderOsisGroup(group: KjvWord[], words: KjvWord[], start: number, options: RenderOptions): string {
+  if (group.length === 1 || isSupplied(group[0])) {
+    return group.map((word, i) => (i > 0 ? getSpaceBefore(words, start + i) : '') + renderOsisWord(word, options)).join('');
+  }
+
+  const last = group.length - 1;
+  const content = group.map((word, i) => {
+    const text = isDivineName(word) ? `<divineName>${escapeXml(word.text)}</divineName>` : escapeXml(word.text);
+    return (i > 0 ? getSpaceBefore(words, start + i) + escapeXml(word.leading ?? '') : '') +
+      text + (i < last ? escapeXml(word.trailing ?? '') : '');
+  }).join('');
+  const first = group[0];
+  return escapeXml(first.leading ?? '') + `<w${renderAttributes(first.source?.attrs)}>${content}</w>` + escapeXml(group[last].trailing ?? '');
+}
+
+/**
+ * Open quotations, outermost first: the speaker (`who`) of each, if any.
+ */
+type QuoteStack = Array<string | null>;
+
+function innermostSpeaker(stack: QuoteStack): string | undefined {
+  return [...stack].reverse().find(who => who) ?? undefined;
+}
+
+/**
+ * The quotations to have open at a word: as many of the open ones as can be
+ * kept, plus new ones, such that the importer gives the word back its
+ * `quote_depth`, `speaker` and `words_of_christ`. Data without `quote_depth`
+ * (quotations recorded by speaker only) gets one level.
+ */
+function nestQuotes(open: QuoteStack, word: KjvWord): QuoteStack {
+  const christ = isWordsOfChrist(word);
+  const speaker = typeof word.metadata?.speaker === 'string' ? word.metadata.speaker : christ ? 'Jesus' : undefined;
+  const depth = typeof word.metadata?.quote_depth === 'number' ? word.metadata.quote_depth : speaker ? 1 : 0;
+
+  let stack: QuoteStack = [];
+  for (let keep = Math.min(open.length, depth); keep >= 0; keep--) {
+    const opened: QuoteStack = Array(depth - keep).fill(null);
+    if (opened.length > 0) opened[opened.length - 1] = speaker ?? null;
+    // Words of Christ quoting someone else need an outer quotation by Jesus
+    if (christ && opened.length > 1 && speaker !== 'Jesus' && !open.slice(0, keep).includes('Jesus')) opened[0] = 'Jesus';
+
+    stack = [...open.slice(0, keep), ...opened];
+    if (innermostSpeaker(stack) === speaker && stack.includes('Jesus') === christ) return stack;
+  }
+  return stack;
+}
+
+/**
+ * Render verse words as OSIS: words rendered from one source element share
+ * a <w>, quotations are nested <q>s by speaker, paragraph and poetry breaks
+ * are milestones, notes follow the word they are anchored to and colophon
+ * words go in a trailing colophon <div>.
+ *
+ * The importer reads this back into the same words, except that breaks and
+ * notes inside a word group move to its start and end, quotations of one
+ * speaker directly following each other are merged, and <seg> markup is not
+ * recorded in the data.
+ */
+function renderOsis(verse: KjvVerseData, options: RenderOptions, reference: VerseReference | undefined): string {
+  const words = selectWords(verse, options);
+  const body = words.filter(word => !isColophon(word));
+  const colophon = words.filter(isColophon);
+  const notes: VerseNote[] = verse.notes ?? [];
+  const breaks: VerseBreak[] = verse.breaks ?? [];
+  const idPrefix = reference ? `${toOsis(reference.book)}.${reference.chapter}.${reference.verse}.` : '';
+
+  // Lines and stanzas are milestones that stay open until the next one or the end of the verse
+  let line: string | null = null;
+  let stanza: string | null = null;
+  let milestones = 0;
+
+  const closeLine = (): string => {
+    const closed = line ? `<l eID="${line}"/>` : '';
+    line = null;
+    return closed;
+  };
+  const closeStanza = (): string => {
+    const closed = closeLine() + (stanza ? `<lg eID="${stanza}"/>` : '');
+    stanza = null;
+    return closed;
+  };
+  const renderBreak = (entry: VerseBreak): string => {
+    if (entry.type === 'paragraph') {
+      return `<milestone type="x-p"${entry.marker ? ` marker="${escapeXml(entry.marker)}"` : ''}/>`;
+    }
+    const id = `${idPrefix}${entry.type === 'stanza' ? 'lg' : 'l'}${++milestones}`;
+    if (entry.type === 'stanza') {
+      const closed = closeStanza();
+      stanza = id;
+      return `${closed}<lg sID="${id}"/>`;
+    }
+    const closed = closeLine();
+    line = id;
+    return `${closed}<l sID="${id}"${entry.level !== undefined ? ` level="${entry.level}"` : ''}/>`;
+  };
+
+  const notesIn = (from: number, to: number): string =>
+    notes.filter(note => note.position >= from && note.position <= to).map(renderNote).join('');
+
+  let osis = notesIn(0, 0);
+  let quotes: QuoteStack = [];
+  let start = 0;
+  for (const { words: group } of getWordGroups({ words: body })) {
+    const first = group[0].position;
+    const last = group[group.length - 1].position;
+    const nested = nestQuotes(quotes, group[0]);
+    let kept = 0;
+    while (kept < Math.min(quotes.length, nested.length) && quotes[kept] === nested[kept]) kept++;
+
+    osis += '</q>'.repeat(quotes.length - kept) + getSpaceBefore(body, start);
+    osis += breaks.filter(entry => entry.position >= first && entry.position <= last).map(renderBreak).join('');
+    osis += nested.slice(kept).map(who => (who ? `<q who="${escapeXml(who)}" marker="">` : '<q marker="">')).join('');
+    osis += renderOsisGroup(group, body, start, options) + notesIn(first, last);
+
+    quotes = nested;
+    start += group.length;
+  }
+  osis += '</q>'.repeat(quotes.length) + closeStanza();
+
+  if (colophon.length > 0) {
+    const osisID = reference ? ` osisID="${toOsis(reference.book)}.c"` : '';
+    const content = getWordGroups({ words: colophon }).map(({ words: group }) => {
+      const index = colophon.indexOf(group[0]);
+      return getSpaceBefore(colophon, index) + renderOsisGroup(group, colophon, index, options);
+    }).join('');
+    osis += `<div type="colophon"${osisID}>${content}</div>`;
+  }
+  return osis;
+}
+
+/**
+ * Render a verse's words, without verse marker.
+ */
+function renderContent(verse: KjvVerseData, format: RenderFormat, options: RenderOptions, reference?: VerseReference): string {
+  switch (format) {
+    case 'text':
+      return renderText(verse, options);
+    case 'html':
+      return renderHtml(verse, options, reference?.book);
+    case 'markdown':
+      return renderMarkdown(verse, options);
+    case 'usfm':
+      return renderUsfm(verse, options);
+    case 'osis':
+      return renderOsis(verse, options, reference);
+    default:
+      throw new Error(`Unknown render format '${format}'`);
+  }
+}
+
+/**
+ * Render one verse.
+ *
+ * With `reference`, the verse is preceded by its number (an OSIS verse is
+ * enclosed in sID/eID milestones). Without it, only the words are rendered.
+ */
+export function renderVerse(verse: KjvVerseData, format: RenderFormat, options: RenderVerseOptions = {}): string {
+  const { reference } = options;
+  const content = renderContent(verse, format, options, reference);
+  if (!reference) return content;
+
+  const n = reference.verse;
+  switch (format) {
+    case 'text':
+      return `${n} ${content}`;
+    case 'html':
+      return `<sup class="verse-number">${n}</sup>${content}`;
+    case 'markdown':
+      return `**${n}** ${content}`;
+    case 'usfm':
+      return `\\v ${n} ${content}`;
+    case 'osis': {
+      const osisID = `${toOsis(reference.book)}.${reference.chapter}.${n}`;
+      // Colophons follow the closing milestone
+      const colophonStart = content.indexOf('<div type="colophon"');
+      const words = colophonStart === -1 ? content : content.slice(0, colophonStart);
+      const colophon = colophonStart === -1 ? '' : content.slice(colophonStart);
+      return `<verse osisID="${osisID}" sID="${osisID}"/>${words}<verse eID="${osisID}"/>${colophon}`;
+    }
+  }
+  return content;
+}
+
+/**
+ * Render a chapter's verses (in order, numbered from 1).
+ *
+ * Text and Markdown put each verse on its own line, HTML wraps the verses in
+ * a <p>, USFM starts with \c and OSIS wraps the verses in a <chapter>.
+ */
+export function renderChapter(
+  verses: KjvVerseData[],
+  format: RenderFormat,
+  options: RenderOptions & { book: string; chapter: number },
+): string {
+  const { book, chapter } = options;
+  const rendered = verses.map((verse, i) =>
+    renderVerse(verse, format, { ...options, reference: { book, chapter, verse: i + 1 } }));
+
+  switch (format) {
+    case 'text':
+    case 'markdown':
+      return rendered.join('\n');
+    case 'html':
+      return `<p>${rendered.join(' ')}</p>`;
+    case 'usfm':
+      return `\\c ${chapter}\n\\p\n${rendered.join('\n')}`;
+    case 'osis': {
+      const osisID = `${toOsis(book)}.${chapter}`;
+      return `<chapter osisID="${osisID}">${rendered.join('\n')}</chapter>`;
+    }
+    default:
+      throw new Error(`Unknown render format '${format}'`);
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Full-text search over crosswire-KJV verse text.
+ *
+ * The importer writes an inverted index to `cache/search.json`. Terms are
+ * case- and punctuation-normalized words; postings record each term's token
+ * ordinals (0-based index into the verse's token stream) so phrases can be
+ * matched by adjacency:
+ *
+ *   {
+ *     "verseCount": 31102,
+ *     "terms": { "voice": { "1Kgs.19.12": [12], ... }, ... },
+ *     "positions": { "Exod.3.12": [1, 2, 3, 4, ...], ... }
+ *   }
+ *
+ * Token ordinal `n` is word position `n + 1` unless the verse appears in
+ * `positions`, which lists the word position of every token for verses that
+ * contain multi-word entries (e.g. supplied words such as "shall be").
+ *
+ * When the cache is missing, the index is built from the verse data on first
+ * use instead.
+ *
+ * Query syntax:
+ *   - `still small voice`    all terms must occur (implicit AND)
+ *   - `"still small voice"`  exact phrase
+ *   - `lov*`, `l?ve`         prefix and wildcard terms
+ *   - `charity OR love`      either side may match; AND binds tighter than OR
+ */
+
+import { loadCache, fromOsis, toOsis, listOsisBooks, getTestament, type Testament } from './source.js';
+import { onDataBackendChange } from './backend.js';
+import { readCorpus } from './iterate.js';
+
+/**
+ * Name of the search index cache (`cache/search.json`).
+ */
+export const SEARCH_CACHE = 'search';
+
+/**
+ * Inverted index over verse text.
+ */
+export interface SearchIndex {
+  verseCount: number;
+  terms: Record<string, Record<string, number[]>>;
+  positions: Record<string, number[]>;
+}
+
+/**
+ * A verse to be indexed, identified by OSIS book ID.
+ */
+export interface SearchableVerse {
+  book: string;
+  chapter: number;
+  verse: number;
+  data: {
+    words: Array<{ position: number; text: string }>;
+  };
+}
+
+/**
+ * Search options.
+ */
+export interface SearchOptions {
+  /** Restrict results to these books (names or OSIS IDs) */
+  books?: string[];
+  /** Restrict results to one testament */
+  testament?: Testament;
+  /** Maximum number of results */
+  limit?: number;
+}
+
+/**
+ * A verse matching a search query.
+ */
+export interface SearchResult {
+  /** English book name */
+  book: string;
+  /** OSIS reference, e.g. "1Kgs.19.12" */
+  osisRef: string;
+  chapter: number;
+  verse: number;
+  /** Relevance score; higher is better */
+  score: number;
+  /** Positions of the matched words, for highlighting */
+  positions: number[];
+}
+
+/**
+ * Normalize a word for indexing and matching: lowercase, letters and digits only.
+ */
+export function normalizeTerm(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Split word text into normalized tokens.
+ */
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).map(normalizeTerm).filter(Boolean);
+}
+
+/**
+ * Build the search index from verses in canonical order.
+ */
+export function buildSearchIndex(verses: Iterable<SearchableVerse>): SearchIndex {
+  const terms: SearchIndex['terms'] = {};
+  const positions: SearchIndex['positions'] = {};
+  let verseCount = 0;
+
+  for (const { book, chapter, verse, data } of verses) {
+    const osisRef = `${book}.${chapter}.${verse}`;
+    const tokenPositions: number[] = [];
+    verseCount++;
+
+    for (const word of data.words) {
+      for (const token of tokenize(word.text)) {
+        const refs = (terms[token] ??= {});
+        (refs[osisRef] ??= []).push(tokenPositions.length);
+        tokenPositions.push(word.position);
+      }
+    }
+
+    if (tokenPositions.some((position, ordinal) => position !== ordinal + 1)) {
+      positions[osisRef] = tokenPositions;
+    }
+  }
+
+  const sortedTerms = Object.fromEntries(Object.keys(terms).sort().map(term => [term, terms[term]]));
+  return { verseCount, terms: sortedTerms, positions };
+}
+
+/**
+ * A phrase of one or more elements; each element lists the index terms it may match.
+ */
+type Phrase = string[][];
+
+/**
+ * Parse a query into OR-ed clauses of AND-ed phrases.
+ */
+function parseQuery(query: string, index: SearchIndex): Phrase[][] {
+  const clauses: Phrase[][] = [[]];
+  const tokenRe = /"([^"]*)"?|(\S+)/g;
+  let match;
+
+  while ((match = tokenRe.exec(query)) !== null) {
+    const [, quoted, bare] = match;
+    if (bare === 'OR') {
+      if (clauses[clauses.length - 1].length > 0) clauses.push([]);
+      continue;
+    }
+    if (bare === 'AND') continue;
+
+    const words = (quoted ?? bare).split(/\s+/).filter(word => normalizeTerm(word));
+    if (words.length > 0) {
+      clauses[clauses.length - 1].push(words.map(word => expandTerm(word, index)));
+    }
+  }
+
+  return clauses.filter(clause => clause.length > 0);
+}
+
+/**
+ * Expand a query word into the index terms it matches (wildcards `*` and `?`).
+ */
+function expandTerm(word: string, index: SearchIndex): string[] {
+  if (!/[*?]/.test(word)) {
+    return [normalizeTerm(word)];
+  }
+
+  const pattern = word
+    .split(/([*?])/)
+    .map(part => (part === '*' ? '.*' : part === '?' ? '.' : normalizeTerm(part)))
+    .join('');
+  const re = new RegExp(`^${pattern}$`, 'u');
+  return Object.keys(index.terms).filter(term => re.test(term));
+}
+
+/**
+ * Find verses containing a phrase, returning the token ordinals of each match.
+ */
+function matchPhrase(index: SearchIndex, phrase: Phrase, include: (osisRef: string) => boolean): Map<string, number[]> {
+  const postings = phrase.map(candidates => {
+    const merged = new Map<string, Set<number>>();
+    for (const term of candidates) {
+      for (const [osisRef, ordinals] of Object.entries(index.terms[term] ?? {})) {
+        if (!include(osisRef)) continue;
+        const set = merged.get(osisRef) ?? new Set<number>();
+        for (const ordinal of ordinals) set.add(ordinal);
+        merged.set(osisRef, set);
+      }
+    }
+    return merged;
+  });
+
+  const matches = new Map<string, number[]>();
+  for (const [osisRef, starts] of postings[0]) {
+    const matched: number[] = [];
+    for (const start of starts) {
+      if (postings.every((element, offset) => element.get(osisRef)?.has(start + offset))) {
+        for (let offset = 0; offset < phrase.length; offset++) {
+          matched.push(start + offset);
+        }
+      }
+    }
+    if (matched.length > 0) {
+      matches.set(osisRef, matched);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Run a query against an index.
+ */
+export function searchIndex(index: SearchIndex, query: string, options: SearchOptions = {}): SearchResult[] {
+  const bookFilter = options.books ? new Set(options.books.map(toOsis)) : null;
+  const include = (osisRef: string): boolean => {
+    const book = osisRef.slice(0, osisRef.indexOf('.'));
+    if (bookFilter && !bookFilter.has(book)) return false;
+    if (options.testament && getTestament(book) !== options.testament) return false;
+    return true;
+  };
+
+  const scores = new Map<string, { score: number; ordinals: Set<number> }>();
+
+  for (const clause of parseQuery(query, index)) {
+    const phraseMatches = clause.map(phrase => matchPhrase(index, phrase, include));
+    const [first, ...rest] = phraseMatches;
+
+    for (const osisRef of first.keys()) {
+      if (!rest.every(matches => matches.has(osisRef))) continue;
+
+      const entry = scores.get(osisRef) ?? { score: 0, ordinals: new Set<number>() };
+      for (let i = 0; i < clause.length; i++) {
+        const matched = phraseMatches[i].get(osisRef)!;
+        const idf = Math.log(1 + index.verseCount / phraseMatches[i].size);
+        entry.score += (matched.length / clause[i].length) * idf;
+        for (const ordinal of matched) entry.ordinals.add(ordinal);
+      }
+      scores.set(osisRef, entry);
+    }
+  }
+
+  const bookOrder = new Map(listOsisBooks().map((book, i) => [book, i]));
+  const results: SearchResult[] = [...scores].map(([osisRef, { score, ordinals }]) => {
+    const [book, chapter, verse] = osisRef.split('.');
+    const tokenPositions = index.positions[osisRef];
+    const positions = [...new Set([...ordinals].map(ordinal => tokenPositions?.[ordinal] ?? ordinal + 1))];
+    return {
+      book: fromOsis(book),
+      osisRef,
+      chapter: parseInt(chapter, 10),
+      verse: parseInt(verse, 10),
+      score,
+      positions: positions.sort((a, b) => a - b),
+    };
+  });
+
+  results.sort((a, b) =>
+    b.score - a.score ||
+    bookOrder.get(toOsis(a.book))! - bookOrder.get(toOsis(b.book))! ||
+    a.chapter - b.chapter ||
+    a.verse - b.verse
+  );
+
+  return options.limit !== undefined ? results.slice(0, options.limit) : results;
+}
+
+let indexPromise: Promise<SearchIndex> | null = null;
+
+function loadSearchIndex(): Promise<SearchIndex> {
+  indexPromise ??= loadCache(SEARCH_CACHE).then(
+    data => data as unknown as SearchIndex,
+    async () => buildSearchIndex(await readCorpus()),
+  ).catch(error => {
+    indexPromise = null;
+    throw error;
+  });
+  return indexPromise;
+}
+
+onDataBackendChange(() => {
+  indexPromise = null;
+});
+
+/**
+ * Search verse text.
+ *
+ * Results are ranked by relevance (rarer terms and repeated matches score
+ * higher), then by canonical order.
+ */
+export async function search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+  return searchIndex(await loadSearchIndex(), query, options);
+}
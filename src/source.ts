@@ -2,16 +2,33 @@
  * Source configuration and data loading for crosswire-KJV.
  */
 
-import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
-import { readFile, readdir } from 'fs/promises';
 import type { EditionMetadata, VerseData } from '@metaxia/scriptures-core';
+import { getDataBackend, onDataBackendChange, type DataBackend } from './backend.js';
+import { PACKED_DIR, loadPackedIndex, readPackedVerse, readPackedChapter } from './packed.js';
+import { LruCache, mapConcurrent, deepFreeze, type CacheStats } from './cache.js';
+import { BOOK_ALIASES } from './aliases.js';
+import { withMorphology, type MorphologyEntry } from './morph.js';
 
-// Resolve paths relative to this file
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-const DATA_PATH = join(__dirname, '..', 'data', 'crosswire-KJV');
-const CACHE_PATH = join(__dirname, '..', 'cache');
+// Paths relative to the data backend's root (the package root)
+const DATA_PATH = 'data/crosswire-KJV';
+const CACHE_PATH = 'cache';
+const PACKED_PATH = `${DATA_PATH}/${PACKED_DIR}`;
+const VERSIFICATION_PATH = `${DATA_PATH}/versification.json`;
+
+/**
+ * Absolute filesystem path of a package-relative path, as the default
+ * filesystem backend reads it. Computed from the module URL so that browsers
+ * and workers can load this module without Node's `path` and `url`; outside
+ * a `file:` URL it is the URL itself.
+ */
+function packagePath(path: string): string {
+  const url = new URL(`../${path}`, import.meta.url);
+  if (url.protocol !== 'file:') return url.href;
+
+  const filePath = decodeURIComponent(url.pathname);
+  // file:///C:/... on Windows
+  return /^\/[A-Za-z]:\//.test(filePath) ? filePath.slice(1).replace(/\//g, '\\') : filePath;
+}
 
 /**
  * Edition metadata.
@@ -26,14 +43,150 @@ export const metadata: EditionMetadata = {
   year: 1769,
 };
 
+/**
+ * A Strong's number with its original-language lemma forms.
+ */
+export interface WordLemma {
+  /** Strong's number with its testament prefix, e.g. "G2316" or "H7225" */
+  strongs: string;
+  /** Lemma forms keyed by text (OSIS `lemma.TR:` gives "TR"), e.g. { TR: 'θεος' } */
+  forms?: Record<string, string>;
+}
+
+/**
+ * A word of verse text as stored by crosswire-KJV.
+ */
+export interface KjvWord {
+  position: number;
+  /** The word, without punctuation (older data includes attached punctuation) */
+  text: string;
+  /** Punctuation before the word, e.g. "(" */
+  leading?: string;
+  /** Punctuation after the word, e.g. ";)" */
+  trailing?: string;
+  /** Whitespace before the word, when not the default (see tokens.ts) */
+  space?: string;
+  /** Raw OSIS lemma attribute, e.g. "strong:G3588 strong:G2316 lemma.TR:ο lemma.TR:θεος" */
+  lemma?: string | null;
+  morph?: string | null;
+  /** Strong's numbers, in source order */
+  strongs?: string[];
+  /** Strong's numbers paired with their lemma forms, in source order */
+  lemmas?: WordLemma[];
+  /** Decoded `morph` codes, when loaded with `{ morphology: true }` */
+  morphology?: MorphologyEntry[];
+  metadata?: Record<string, unknown>;
+  source?: {
+    lemma?: string;
+    morph?: string;
+    attrs?: Record<string, string>;
+  };
+}
+
+/**
+ * A marginal or translator's note attached to a verse.
+ */
+export interface VerseNote {
+  /** Note type attribute (e.g. "translation", "study"), if any */
+  type: string | null;
+  /** Position of the word the note follows (0 = before the first word) */
+  position: number;
+  /** Note text, excluding the catch word */
+  text: string;
+  /** Words of the verse the note comments on, if marked */
+  catchWord?: string;
+  /** Note marker (OSIS `n` attribute) */
+  n?: string;
+  osisRef?: string;
+  osisID?: string;
+}
+
+/**
+ * A paragraph, stanza or poetic line break within a verse.
+ */
+export interface VerseBreak {
+  /** Paragraph start (pilcrow or <p>), stanza start (<lg>) or poetic line start (<l>) */
+  type: 'paragraph' | 'stanza' | 'line';
+  /** Position of the first word after the break */
+  position: number;
+  /** Printed marker, e.g. "¶" */
+  marker?: string;
+  /** Line indentation level */
+  level?: number;
+}
+
+/**
+ * Verse-level metadata flags.
+ */
+export interface KjvVerseMetadata {
+  has_colophon?: boolean;
+  colophon_word_range?: [number, number];
+  colophon_type?: string;
+  /** Some words are inside a <q> quotation */
+  has_quotation?: boolean;
+  /** Some words are spoken by Jesus (red-letter) */
+  has_words_of_christ?: boolean;
+  /** Attributed speakers of quoted words, in order of appearance */
+  speakers?: string[];
+}
+
+/**
+ * Verse data as stored by crosswire-KJV.
+ */
+export type KjvVerseData = VerseData & {
+  words: KjvWord[];
+  /** Marginal and translators' notes, in verse order */
+  notes?: VerseNote[];
+  /** Paragraph and poetry breaks, in word order */
+  breaks?: VerseBreak[];
+  metadata?: KjvVerseMetadata;
+};
+
+/**
+ * Options for loading verses.
+ */
+export interface LoadOptions {
+  /** Decode each word's `morph` codes into `morphology` */
+  morphology?: boolean;
+}
+
+/**
+ * Options for the in-process verse cache.
+ */
+export interface VerseCacheOptions {
+  /** Memory budget in bytes of verse JSON (default 64 MB; 0 disables caching) */
+  maxBytes?: number;
+  /** Maximum concurrent file reads when loading chapters and preloading (default 16) */
+  concurrency?: number;
+}
+
+/**
+ * Options for creating the source.
+ */
+export interface SourceOptions {
+  /** Backend the source reads data through (the package-wide backend by default) */
+  backend?: DataBackend;
+}
+
 /**
  * Source information for registration.
+ *
+ * The `*Path` fields are absolute filesystem paths of the bundled data, as
+ * read by the default filesystem backend. The `*Dir` and `*File` fields are
+ * the same locations relative to the data backend's root, as any backend
+ * (e.g. `createMemoryBackend`) is keyed.
  */
 export const sourceInfo = {
   edition: 'crosswire-KJV',
   metadata,
-  dataPath: DATA_PATH,
-  cachePath: CACHE_PATH,
+  dataPath: packagePath(DATA_PATH),
+  packedPath: packagePath(PACKED_PATH),
+  versificationPath: packagePath(VERSIFICATION_PATH),
+  cachePath: packagePath(CACHE_PATH),
+  dataDir: DATA_PATH,
+  packedDir: PACKED_PATH,
+  versificationFile: VERSIFICATION_PATH,
+  cacheDir: CACHE_PATH,
 };
 
 /**
@@ -59,6 +212,26 @@ const BOOK_TO_OSIS: Record<string, string> = {
   '2 John': '2John', '3 John': '3John', 'Jude': 'Jude', 'Revelation': 'Rev',
 };
 
+/**
+ * OSIS book IDs in canonical order.
+ */
+const OSIS_BOOKS = Object.values(BOOK_TO_OSIS);
+
+/**
+ * Number of Old Testament books at the start of the canon.
+ */
+const OT_BOOK_COUNT = 39;
+
+/**
+ * Testament identifier.
+ */
+export type Testament = 'OT' | 'NT';
+
+/**
+ * Verse counts per chapter (`[chapter - 1]`), keyed by OSIS book ID.
+ */
+export type Versification = Record<string, number[]>;
+
 /**
  * OSIS to book name mapping.
  */
@@ -66,62 +239,409 @@ const OSIS_TO_BOOK: Record<string, string> = Object.fromEntries(
   Object.entries(BOOK_TO_OSIS).map(([k, v]) => [v, k])
 );
 
+/**
+ * A book resolved from user input.
+ */
+export interface ResolvedBook {
+  /** Canonical English book name */
+  name: string;
+  /** OSIS book ID */
+  osis: string;
+}
+
+/**
+ * Error thrown when a book name cannot be resolved.
+ */
+export class UnknownBookError extends Error {
+  readonly input: string;
+  readonly suggestions: string[];
+
+  constructor(input: string, suggestions: string[]) {
+    const hint = suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : '';
+    super(`Unknown book '${input}' in crosswire-KJV.${hint}`);
+    this.name = 'UnknownBookError';
+    this.input = input;
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * Error thrown when a verse is not in the data.
+ */
+export class VerseNotFoundError extends Error {
+  readonly book: string;
+  readonly chapter: number;
+  readonly verse: number;
+
+  constructor(book: string, chapter: number, verse: number) {
+    super(`Verse ${book} ${chapter}:${verse} not found in crosswire-KJV`);
+    this.name = 'VerseNotFoundError';
+    this.book = book;
+    this.chapter = chapter;
+    this.verse = verse;
+  }
+}
+
+const ORDINAL_PREFIXES: Record<string, string> = {
+  i: '1', ii: '2', iii: '3',
+  first: '1', second: '2', third: '3',
+  '1st': '1', '2nd': '2', '3rd': '3',
+};
+
+/**
+ * Normalize a book name for lookup: lowercase, ordinal prefixes as digits,
+ * letters and digits only ("I John." -> "1john").
+ */
+function normalizeBookName(input: string): string {
+  const words = input.toLowerCase().replace(/\./g, ' ').trim().split(/\s+/);
+  if (words.length > 1 && ORDINAL_PREFIXES[words[0]]) {
+    words[0] = ORDINAL_PREFIXES[words[0]];
+  }
+  return words.join('').replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Normalized name, OSIS ID or alias -> OSIS book ID.
+ */
+const BOOK_LOOKUP = new Map<string, string>();
+for (const [name, osis] of Object.entries(BOOK_TO_OSIS)) {
+  for (const alias of [name, osis, ...(BOOK_ALIASES[osis] ?? [])]) {
+    BOOK_LOOKUP.set(normalizeBookName(alias), osis);
+  }
+}
+
+/**
+ * Edit distance between two strings.
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Suggest up to three book names close to an unresolved key.
+ */
+function suggestBooks(key: string): string[] {
+  if (!key) return [];
+
+  const best = new Map<string, number>();
+  for (const [alias, osis] of BOOK_LOOKUP) {
+    const distance = alias.startsWith(key) ? 0 : levenshtein(key, alias);
+    if (distance <= Math.max(1, Math.floor(key.length / 3)) && distance < (best.get(osis) ?? Infinity)) {
+      best.set(osis, distance);
+    }
+  }
+
+  return [...best]
+    .sort((a, b) => a[1] - b[1] || OSIS_BOOKS.indexOf(a[0]) - OSIS_BOOKS.indexOf(b[0]))
+    .slice(0, 3)
+    .map(([osis]) => OSIS_TO_BOOK[osis]);
+}
+
+/**
+ * Resolve a book name, abbreviation, alias or OSIS ID.
+ *
+ * Matching ignores case, spaces and periods, and accepts Roman numeral or
+ * ordinal prefixes ("john", "Jn", "1 Jn", "I John", "Song of Songs",
+ * "Psalm", "Rev."). Throws UnknownBookError with suggestions otherwise.
+ */
+export function resolveBook(input: string): ResolvedBook {
+  const key = normalizeBookName(input);
+  const osis = BOOK_LOOKUP.get(key);
+  if (!osis) {
+    throw new UnknownBookError(input.trim(), suggestBooks(key));
+  }
+  return { name: OSIS_TO_BOOK[osis], osis };
+}
+
 /**
  * Convert book name to directory name (OSIS format).
  */
-function toOsis(book: string): string {
-  return BOOK_TO_OSIS[book] || book;
+export function toOsis(book: string): string {
+  return resolveBook(book).osis;
 }
 
 /**
- * Load a single verse.
+ * Convert OSIS book ID to book name.
  */
-export async function loadVerse(book: string, chapter: number, verse: number): Promise<VerseData> {
+export function fromOsis(osisBook: string): string {
+  return OSIS_TO_BOOK[osisBook] || osisBook;
+}
+
+const DEFAULT_CACHE_BYTES = 64 * 1024 * 1024;
+const DEFAULT_CONCURRENCY = 16;
+
+const verseCache = new LruCache<KjvVerseData>(DEFAULT_CACHE_BYTES);
+const encoder = new TextEncoder();
+let readConcurrency = DEFAULT_CONCURRENCY;
+
+/**
+ * Verse reads in progress, so concurrent loads of one verse share a read.
+ */
+const pendingReads = new Map<string, Promise<KjvVerseData>>();
+
+/**
+ * Incremented whenever the package-wide backend changes, so reads started
+ * before the switch do not cache the previous backend's verses.
+ */
+let backendGeneration = 0;
+
+// Per backend, so that sources reading through different backends never share verses
+const backendIds = new WeakMap<DataBackend, number>();
+let nextBackendId = 0;
+
+/**
+ * Configure the in-process verse cache.
+ *
+ * Loaded verses are kept in a least-recently-used cache up to `maxBytes`
+ * (measured as the size of their JSON). Cached verses are shared between
+ * callers, so loaded verse data is frozen; copy it (e.g. with
+ * `structuredClone`) to modify it.
+ */
+export function configureVerseCache(options: VerseCacheOptions): void {
+  if (options.maxBytes !== undefined) {
+    verseCache.resize(Math.max(0, options.maxBytes));
+  }
+  if (options.concurrency !== undefined) {
+    readConcurrency = Math.max(1, Math.floor(options.concurrency));
+  }
+}
+
+/**
+ * Get verse cache hit/miss counts and memory use.
+ */
+export function getVerseCacheStats(): CacheStats {
+  return verseCache.stats();
+}
+
+/**
+ * Empty the verse cache and reset its counters.
+ */
+export function clearVerseCache(): void {
+  verseCache.clear();
+}
+
+function verseKey(backend: DataBackend, osisBook: string, chapter: number, verse: number): string {
+  let id = backendIds.get(backend);
+  if (id === undefined) {
+    id = nextBackendId++;
+    backendIds.set(backend, id);
+  }
+  return `${id}:${osisBook}.${chapter}.${verse}`;
+}
+
+/**
+ * Read a verse from disk (packed or legacy) and cache it.
+ */
+async function readVerse(backend: DataBackend, osisBook: string, chapter: number, verse: number): Promise<KjvVerseData> {
+  const key = verseKey(backend, osisBook, chapter, verse);
+  const generation = backendGeneration;
+  let read = pendingReads.get(key);
+  if (!read) {
+    read = (async () => {
+      const index = await loadPackedIndex(PACKED_PATH, osisBook, backend);
+      if (index) {
+        const packed = await readPackedVerse(PACKED_PATH, osisBook, chapter, verse, backend);
+        if (!packed) {
+          throw new VerseNotFoundError(osisBook, chapter, verse);
+        }
+        const data = deepFreeze(packed as KjvVerseData);
+        if (generation === backendGeneration) {
+          verseCache.set(key, data, index.chapters[String(chapter)][verse - 1][1]);
+        }
+        return data;
+      }
+      const path = `${DATA_PATH}/${osisBook}/${chapter}/${verse}.json`;
+      const content = await backend.readText(path);
+      if (content === null) {
+        throw new Error(`File not found: ${path}`);
+      }
+      const data = deepFreeze(JSON.parse(content) as KjvVerseData);
+      if (generation === backendGeneration) {
+        verseCache.set(key, data, encoder.encode(content).byteLength);
+      }
+      return data;
+    })().finally(() => pendingReads.delete(key));
+    pendingReads.set(key, read);
+  }
+  return read;
+}
+
+/**
+ * Read a chapter from disk (packed or legacy) and cache its verses.
+ * Verses already cached are not read again from the legacy layout.
+ */
+async function readChapter(backend: DataBackend, osisBook: string, chapter: number, cached: Array<KjvVerseData | undefined>): Promise<KjvVerseData[]> {
+  const generation = backendGeneration;
+  const index = await loadPackedIndex(PACKED_PATH, osisBook, backend);
+  if (index) {
+    const verses = (await readPackedChapter(PACKED_PATH, osisBook, chapter, backend))!.map(data => deepFreeze(data as KjvVerseData));
+    const entries = index.chapters[String(chapter)];
+    if (generation === backendGeneration) {
+      verses.forEach((data, i) => verseCache.set(verseKey(backend, osisBook, chapter, i + 1), data, entries[i][1]));
+    }
+    return verses;
+  }
+
+  return mapConcurrent(cached, readConcurrency, (data, i) => (data ? Promise.resolve(data) : readVerse(backend, osisBook, chapter, i + 1)));
+}
+
+async function loadVerseFrom(backend: DataBackend, book: string, chapter: number, verse: number, options: LoadOptions): Promise<KjvVerseData> {
   const osisBook = toOsis(book);
-  const filePath = join(DATA_PATH, osisBook, String(chapter), `${verse}.json`);
 
+  let data: KjvVerseData;
   try {
-    const content = await readFile(filePath, 'utf-8');
-    return JSON.parse(content);
+    data = verseCache.get(verseKey(backend, osisBook, chapter, verse)) ?? await readVerse(backend, osisBook, chapter, verse);
   } catch (error) {
-    throw new Error(`Verse ${book} ${chapter}:${verse} not found in crosswire-KJV`);
+    throw new VerseNotFoundError(book, chapter, verse);
   }
+
+  return options.morphology ? withMorphology(data) : data;
+}
+
+async function loadChapterFrom(backend: DataBackend, book: string, chapter: number, options: LoadOptions): Promise<KjvVerseData[]> {
+  const osisBook = toOsis(book);
+
+  let verses: KjvVerseData[];
+  try {
+    const index = await loadPackedIndex(PACKED_PATH, osisBook, backend);
+    const verseCount = index ? index.chapters[String(chapter)]?.length ?? 0 : await getVerseCountFrom(backend, book, chapter);
+    const cached = Array.from({ length: verseCount }, (_, i) => verseCache.get(verseKey(backend, osisBook, chapter, i + 1)));
+
+    verses = cached.every(Boolean) && verseCount > 0
+      ? cached as KjvVerseData[]
+      : await readChapter(backend, osisBook, chapter, cached);
+  } catch (error) {
+    throw new Error(`Chapter ${book} ${chapter} not found in crosswire-KJV`);
+  }
+
+  return options.morphology ? verses.map(withMorphology) : verses;
+}
+
+/**
+ * Load a single verse.
+ *
+ * Reads from the packed layout when the book has been packed, otherwise
+ * falls back to the legacy one-file-per-verse layout. Verses are served
+ * from the in-process cache when possible (see `configureVerseCache`). Pass
+ * `{ morphology: true }` to decode each word's morph codes.
+ */
+export async function loadVerse(book: string, chapter: number, verse: number, options: LoadOptions = {}): Promise<KjvVerseData> {
+  return loadVerseFrom(await getDataBackend(), book, chapter, verse, options);
 }
 
 /**
  * Load all verses in a chapter.
+ *
+ * Reads from the packed layout with one ranged read when the book has been
+ * packed, otherwise reads the legacy per-verse files in parallel. Verses are
+ * served from the in-process cache when possible. Pass
+ * `{ morphology: true }` to decode each word's morph codes.
  */
-export async function loadChapter(book: string, chapter: number): Promise<VerseData[]> {
-  const osisBook = toOsis(book);
-  const chapterPath = join(DATA_PATH, osisBook, String(chapter));
+export async function loadChapter(book: string, chapter: number, options: LoadOptions = {}): Promise<KjvVerseData[]> {
+  return loadChapterFrom(await getDataBackend(), book, chapter, options);
+}
 
-  try {
-    const files = await readdir(chapterPath);
-    const jsonFiles = files.filter(f => f.endsWith('.json')).sort((a, b) => {
-      const numA = parseInt(a.replace('.json', ''), 10);
-      const numB = parseInt(b.replace('.json', ''), 10);
-      return numA - numB;
-    });
-
-    const verses: VerseData[] = [];
-    for (const file of jsonFiles) {
-      const content = await readFile(join(chapterPath, file), 'utf-8');
-      verses.push(JSON.parse(content));
+/**
+ * Load every chapter of the given books (names or OSIS IDs; all books by
+ * default) into the verse cache. Returns the number of verses loaded.
+ *
+ * Only as many verses as fit in the cache budget stay cached.
+ */
+export async function preload(books: string[] = listBooks()): Promise<number> {
+  const chapters: Array<[string, number]> = [];
+  for (const book of books) {
+    for (const chapter of await listChapters(book)) {
+      chapters.push([book, chapter]);
     }
-    return verses;
-  } catch (error) {
+  }
+
+  let count = 0;
+  await mapConcurrent(chapters, Math.max(1, Math.floor(readConcurrency / 4)), async ([book, chapter]) => {
+    count += (await loadChapter(book, chapter)).length;
+  });
+  return count;
+}
+
+// Per backend, like the packed indexes
+const versificationCache = new WeakMap<DataBackend, Promise<Versification>>();
+
+function loadVersificationFrom(backend: DataBackend): Promise<Versification> {
+  let versification = versificationCache.get(backend);
+  if (!versification) {
+    versification = backend.readText(VERSIFICATION_PATH)
+      .then(content => {
+        if (content === null) throw new Error(`File not found: ${VERSIFICATION_PATH}`);
+        return JSON.parse(content) as Versification;
+      })
+      .catch(() => {
+        versificationCache.delete(backend);
+        throw new Error('Versification table not found in crosswire-KJV');
+      });
+    versificationCache.set(backend, versification);
+  }
+  return versification;
+}
+
+/**
+ * Load the versification table (verse counts per chapter for every book).
+ */
+export async function loadVersification(): Promise<Versification> {
+  return loadVersificationFrom(await getDataBackend());
+}
+
+onDataBackendChange(() => {
+  backendGeneration++;
+  verseCache.clear();
+  pendingReads.clear();
+});
+
+/**
+ * List the chapter numbers of a book.
+ */
+export async function listChapters(book: string): Promise<number[]> {
+  const counts = (await loadVersification())[toOsis(book)];
+  if (!counts) {
+    throw new Error(`Book ${book} not found in crosswire-KJV`);
+  }
+  return counts.map((_, i) => i + 1);
+}
+
+/**
+ * Get the number of verses in a chapter.
+ */
+export async function getVerseCount(book: string, chapter: number): Promise<number> {
+  return getVerseCountFrom(await getDataBackend(), book, chapter);
+}
+
+async function getVerseCountFrom(backend: DataBackend, book: string, chapter: number): Promise<number> {
+  const count = (await loadVersificationFrom(backend))[toOsis(book)]?.[chapter - 1];
+  if (!count) {
     throw new Error(`Chapter ${book} ${chapter} not found in crosswire-KJV`);
   }
+  return count;
 }
 
 /**
  * Load cache data.
  */
 export async function loadCache(cacheName: string): Promise<Record<string, unknown>> {
-  const filePath = join(CACHE_PATH, `${cacheName}.json`);
+  return loadCacheFrom(await getDataBackend(), cacheName);
+}
+
+async function loadCacheFrom(backend: DataBackend, cacheName: string): Promise<Record<string, unknown>> {
+  const path = `${CACHE_PATH}/${cacheName}.json`;
 
   try {
-    const content = await readFile(filePath, 'utf-8');
+    const content = await backend.readText(path);
+    if (content === null) throw new Error(`File not found: ${path}`);
     return JSON.parse(content);
   } catch (error) {
     throw new Error(`Cache '${cacheName}' not found`);
@@ -134,3 +654,41 @@ export async function loadCache(cacheName: string): Promise<Record<string, unkno
 export function listBooks(): string[] {
   return Object.keys(BOOK_TO_OSIS);
 }
+
+/**
+ * List available books as OSIS IDs, in canonical order.
+ */
+export function listOsisBooks(): string[] {
+  return [...OSIS_BOOKS];
+}
+
+/**
+ * Get the testament a book (name or OSIS ID) belongs to.
+ */
+export function getTestament(book: string): Testament {
+  return OSIS_BOOKS.indexOf(toOsis(book)) < OT_BOOK_COUNT ? 'OT' : 'NT';
+}
+
+/**
+ * Create the source for `registerSource`, optionally reading data through
+ * another backend (e.g. `createFetchBackend` in browsers and workers).
+ *
+ * A `backend` applies to the returned source only; the package-wide loaders
+ * keep reading through the backend chosen with `setDataBackend`.
+ */
+export function createSource(options: SourceOptions = {}) {
+  const { backend } = options;
+
+  return {
+    edition: sourceInfo.edition,
+    metadata: sourceInfo.metadata,
+    loadVerse: backend
+      ? (book: string, chapter: number, verse: number, loadOptions: LoadOptions = {}) => loadVerseFrom(backend, book, chapter, verse, loadOptions)
+      : loadVerse,
+    loadChapter: backend
+      ? (book: string, chapter: number, loadOptions: LoadOptions = {}) => loadChapterFrom(backend, book, chapter, loadOptions)
+      : loadChapter,
+    loadCache: backend ? (cacheName: string) => loadCacheFrom(backend, cacheName) : loadCache,
+    listBooks,
+  };
+}
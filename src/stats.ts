@@ -0,0 +1,328 @@
+/**
+ * Word frequency and vocabulary statistics for crosswire-KJV.
+ *
+ * The importer writes `cache/word-stats.json` with occurrence counts per
+ * chapter for every English word form (case- and punctuation-normalized, as
+ * in search) and every Strong's number, plus the number of words in each
+ * chapter:
+ *
+ *   {
+ *     "words": { "Gen": [797, 632, ...], ... },
+ *     "forms": { "charity": { "1Cor": { "8": 1, "13": 9, ... }, ... }, ... },
+ *     "strongs": { "G26": { "Matt": { "24": 1 }, ... }, ... }
+ *   }
+ *
+ * Queries break counts down by testament, book and chapter, and can be
+ * limited to some books or one testament. When the cache is missing, the
+ * statistics are built from the verse data on first use instead.
+ */
+
+import { loadCache, fromOsis, toOsis, listOsisBooks, getTestament, type Testament } from './source.js';
+import { onDataBackendChange } from './backend.js';
+import { normalizeTerm } from './search.js';
+import { normalizeStrongs, compareStrongs } from './strongs.js';
+import { getWordGroups, type WordLike } from './words.js';
+import { readCorpus } from './iterate.js';
+
+/**
+ * Name of the statistics cache (`cache/word-stats.json`).
+ */
+export const WORD_STATS_CACHE = 'word-stats';
+
+/**
+ * Occurrence counts: term -> OSIS book ID -> chapter -> count.
+ */
+export type OccurrenceCounts = Record<string, Record<string, Record<string, number>>>;
+
+/**
+ * Word statistics over the corpus.
+ */
+export interface WordStats {
+  /** Words per chapter (`[chapter - 1]`), keyed by OSIS book ID */
+  words: Record<string, number[]>;
+  /** Counts by normalized English word form */
+  forms: OccurrenceCounts;
+  /** Counts by Strong's number */
+  strongs: OccurrenceCounts;
+}
+
+/**
+ * A verse to be counted, identified by OSIS book ID.
+ */
+export interface CountableVerse {
+  book: string;
+  chapter: number;
+  verse: number;
+  data: {
+    words: Array<WordLike & { strongs?: string[] | null }>;
+  };
+}
+
+/**
+ * Limits a query to some books or one testament.
+ */
+export interface StatsOptions {
+  /** Only these books (names or OSIS IDs) */
+  books?: string[];
+  /** Only books of this testament */
+  testament?: Testament;
+}
+
+/**
+ * What terms are counted by: English word form or Strong's number.
+ */
+export type StatsKey = 'form' | 'strongs';
+
+/**
+ * Options for listing terms.
+ */
+export interface TermListOptions extends StatsOptions {
+  /** Count word forms (default) or Strong's numbers */
+  by?: StatsKey;
+}
+
+/**
+ * Occurrences of a term in one book.
+ */
+export interface BookFrequency {
+  /** English book name */
+  book: string;
+  count: number;
+  /** Chapters the term occurs in, in order */
+  chapters: Array<{ chapter: number; count: number }>;
+}
+
+/**
+ * Occurrences of a term, broken down by testament, book and chapter.
+ */
+export interface WordFrequency {
+  /** Normalized word form or Strong's number */
+  term: string;
+  count: number;
+  testaments: Record<Testament, number>;
+  /** Books the term occurs in, in canonical order */
+  books: BookFrequency[];
+}
+
+/**
+ * Word and vocabulary counts for one book.
+ */
+export interface BookVocabulary {
+  /** English book name */
+  book: string;
+  /** Number of words */
+  words: number;
+  /** Number of distinct word forms */
+  forms: number;
+  /** Number of distinct Strong's numbers */
+  strongs: number;
+}
+
+/**
+ * Word and vocabulary counts for the selected books, overall and per book.
+ */
+export interface VocabularyStats {
+  words: number;
+  forms: number;
+  strongs: number;
+  /** In canonical order */
+  books: BookVocabulary[];
+}
+
+const BOOK_ORDER = new Map(listOsisBooks().map((book, i) => [book, i]));
+
+/**
+ * Add one occurrence of a term.
+ */
+function addCount(counts: OccurrenceCounts, term: string, book: string, chapter: number): void {
+  const chapters = ((counts[term] ??= {})[book] ??= {});
+  chapters[chapter] = (chapters[chapter] ?? 0) + 1;
+}
+
+/**
+ * Build word statistics from verses in canonical order.
+ *
+ * Entries with several words (e.g. supplied "shall be") count each word.
+ * Strong's numbers are counted once per word group, so "the day" rendered
+ * from one Hebrew word counts H3117 once.
+ */
+export function buildWordStats(verses: Iterable<CountableVerse>): WordStats {
+  const stats: WordStats = { words: {}, forms: {}, strongs: {} };
+
+  for (const { book, chapter, data } of verses) {
+    const chapterWords = (stats.words[book] ??= []);
+    for (let i = chapterWords.length; i < chapter; i++) chapterWords.push(0);
+
+    for (const word of data.words) {
+      for (const form of word.text.split(/\s+/).map(normalizeTerm).filter(Boolean)) {
+        addCount(stats.forms, form, book, chapter);
+        chapterWords[chapter - 1]++;
+      }
+    }
+    for (const group of getWordGroups(data)) {
+      for (const strongs of new Set(group.words.flatMap(word => word.strongs ?? []))) {
+        addCount(stats.strongs, strongs, book, chapter);
+      }
+    }
+  }
+
+  return {
+    words: stats.words,
+    forms: Object.fromEntries(Object.keys(stats.forms).sort().map(form => [form, stats.forms[form]])),
+    strongs: Object.fromEntries(Object.keys(stats.strongs).sort(compareStrongs).map(key => [key, stats.strongs[key]])),
+  };
+}
+
+/**
+ * Whether an OSIS book ID is selected by the options.
+ */
+function selectBooks(options: StatsOptions): (book: string) => boolean {
+  const selected = options.books ? new Set(options.books.map(toOsis)) : null;
+  return book =>
+    (!selected || selected.has(book)) && (!options.testament || getTestament(book) === options.testament);
+}
+
+function sumChapters(chapters: Record<string, number>): number {
+  return Object.values(chapters).reduce((total, count) => total + count, 0);
+}
+
+function frequencyOf(term: string, books: Record<string, Record<string, number>> | undefined, options: StatsOptions): WordFrequency {
+  const include = selectBooks(options);
+  const frequency: WordFrequency = { term, count: 0, testaments: { OT: 0, NT: 0 }, books: [] };
+
+  const entries = Object.entries(books ?? {})
+    .filter(([book]) => include(book))
+    .sort(([a], [b]) => BOOK_ORDER.get(a)! - BOOK_ORDER.get(b)!);
+
+  for (const [book, chapters] of entries) {
+    const count = sumChapters(chapters);
+    frequency.count += count;
+    frequency.testaments[getTestament(book)] += count;
+    frequency.books.push({
+      book: fromOsis(book),
+      count,
+      chapters: Object.entries(chapters)
+        .map(([chapter, chapterCount]) => ({ chapter: parseInt(chapter, 10), count: chapterCount }))
+        .sort((a, b) => a.chapter - b.chapter),
+    });
+  }
+
+  return frequency;
+}
+
+/**
+ * Count a word, e.g. `getWordFrequency(stats, 'Charity')`. Case and
+ * punctuation are ignored; unknown words have a count of 0.
+ */
+export function getWordFrequency(stats: WordStats, word: string, options: StatsOptions = {}): WordFrequency {
+  const term = normalizeTerm(word);
+  return frequencyOf(term, stats.forms[term], options);
+}
+
+/**
+ * Count the words tagged with a Strong's number ("G26", "h0430").
+ */
+export function getStrongsFrequency(stats: WordStats, strongs: string, options: StatsOptions = {}): WordFrequency {
+  const term = normalizeStrongs(strongs);
+  return frequencyOf(term, stats.strongs[term], options);
+}
+
+/**
+ * Count every term in the selected books.
+ */
+function countTerms(stats: WordStats, options: TermListOptions): Map<string, number> {
+  const include = selectBooks(options);
+  const totals = new Map<string, number>();
+
+  for (const [term, books] of Object.entries(options.by === 'strongs' ? stats.strongs : stats.forms)) {
+    let count = 0;
+    for (const [book, chapters] of Object.entries(books)) {
+      if (include(book)) count += sumChapters(chapters);
+    }
+    if (count > 0) totals.set(term, count);
+  }
+
+  return totals;
+}
+
+/**
+ * List terms by descending frequency (ties in index order), optionally only
+ * the first `limit`.
+ */
+export function getTopWords(stats: WordStats, options: TermListOptions & { limit?: number } = {}): Array<{ term: string; count: number }> {
+  const terms = [...countTerms(stats, options)]
+    .map(([term, count]) => ({ term, count }))
+    .sort((a, b) => b.count - a.count);
+  return options.limit !== undefined ? terms.slice(0, options.limit) : terms;
+}
+
+/**
+ * List the terms that occur exactly once in the selected books (hapax
+ * legomena), in index order.
+ */
+export function getHapaxLegomena(stats: WordStats, options: TermListOptions = {}): string[] {
+  return [...countTerms(stats, options)].filter(([, count]) => count === 1).map(([term]) => term);
+}
+
+/**
+ * Count words and distinct word forms and Strong's numbers, overall and for
+ * each selected book.
+ */
+export function getVocabularyStats(stats: WordStats, options: StatsOptions = {}): VocabularyStats {
+  const include = selectBooks(options);
+  const books = listOsisBooks().filter(book => include(book) && stats.words[book]);
+  const perBook = new Map(books.map(book => [book, {
+    book: fromOsis(book),
+    words: stats.words[book].reduce((total, count) => total + count, 0),
+    forms: 0,
+    strongs: 0,
+  }]));
+
+  const distinct = (counts: OccurrenceCounts, key: 'forms' | 'strongs'): number => {
+    let total = 0;
+    for (const byBook of Object.values(counts)) {
+      let found = false;
+      for (const book of Object.keys(byBook)) {
+        const entry = perBook.get(book);
+        if (entry) {
+          entry[key]++;
+          found = true;
+        }
+      }
+      if (found) total++;
+    }
+    return total;
+  };
+
+  const forms = distinct(stats.forms, 'forms');
+  const strongs = distinct(stats.strongs, 'strongs');
+  const entries = [...perBook.values()];
+
+  return {
+    words: entries.reduce((total, entry) => total + entry.words, 0),
+    forms,
+    strongs,
+    books: entries,
+  };
+}
+
+let statsPromise: Promise<WordStats> | null = null;
+
+/**
+ * Load the word statistics written by the importer, or build them from the
+ * verse data when the cache is missing.
+ */
+export function loadWordStats(): Promise<WordStats> {
+  statsPromise ??= loadCache(WORD_STATS_CACHE).then(
+    data => data as unknown as WordStats,
+    async () => buildWordStats(await readCorpus()),
+  ).catch(error => {
+    statsPromise = null;
+    throw error;
+  });
+  return statsPromise;
+}
+
+onDataBackendChange(() => {
+  statsPromise = null;
+});
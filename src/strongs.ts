@@ -0,0 +1,133 @@
+/**
+ * Strong's concordance for crosswire-KJV.
+ *
+ * The importer writes `cache/strongs.json`, which maps every Strong's number
+ * to the verses and word positions where it occurs:
+ *
+ *   { "G26": { "John.13.35": [9], ... }, ... }
+ *
+ * When the cache is missing (e.g. a data tree from before the importer wrote
+ * it), the concordance is built from the verse data on first use instead.
+ */
+
+import { loadCache, fromOsis } from './source.js';
+import { onDataBackendChange } from './backend.js';
+import { readCorpus } from './iterate.js';
+
+/**
+ * Name of the concordance cache (`cache/strongs.json`).
+ */
+export const STRONGS_CACHE = 'strongs';
+
+/**
+ * Concordance index: Strong's number -> OSIS verse reference -> word positions.
+ */
+export type StrongsIndex = Record<string, Record<string, number[]>>;
+
+/**
+ * A verse to be indexed, identified by OSIS book ID.
+ */
+export interface IndexableVerse {
+  book: string;
+  chapter: number;
+  verse: number;
+  data: {
+    words: Array<{ position: number; strongs?: string[] | null }>;
+  };
+}
+
+/**
+ * A single verse containing a Strong's number.
+ */
+export interface StrongsOccurrence {
+  /** English book name */
+  book: string;
+  /** OSIS reference, e.g. "John.3.16" */
+  osisRef: string;
+  chapter: number;
+  verse: number;
+  /** Positions of the words tagged with the number */
+  positions: number[];
+}
+
+/**
+ * Normalize a Strong's number ("g0026", "G26 ", "H07225") to its canonical form.
+ */
+export function normalizeStrongs(value: string): string {
+  const match = value.trim().match(/^([HGhg])0*(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid Strong's number '${value}'`);
+  }
+  return `${match[1].toUpperCase()}${match[2]}`;
+}
+
+/**
+ * Order Strong's numbers Hebrew first, then numerically.
+ */
+export function compareStrongs(a: string, b: string): number {
+  return b[0].localeCompare(a[0]) || parseInt(a.slice(1), 10) - parseInt(b.slice(1), 10);
+}
+
+/**
+ * Build the concordance index from verses in canonical order.
+ */
+export function buildStrongsIndex(verses: Iterable<IndexableVerse>): StrongsIndex {
+  const index: StrongsIndex = {};
+
+  for (const { book, chapter, verse, data } of verses) {
+    const osisRef = `${book}.${chapter}.${verse}`;
+    for (const word of data.words) {
+      for (const strongs of word.strongs ?? []) {
+        const refs = (index[strongs] ??= {});
+        const positions = (refs[osisRef] ??= []);
+        if (!positions.includes(word.position)) {
+          positions.push(word.position);
+        }
+      }
+    }
+  }
+
+  return Object.fromEntries(Object.keys(index).sort(compareStrongs).map(key => [key, index[key]]));
+}
+
+let indexPromise: Promise<StrongsIndex> | null = null;
+
+/**
+ * Load the concordance written by the importer, or build it from the verse
+ * data when the cache is missing.
+ */
+export function loadStrongsIndex(): Promise<StrongsIndex> {
+  indexPromise ??= loadCache(STRONGS_CACHE).then(
+    data => data as StrongsIndex,
+    async () => buildStrongsIndex(await readCorpus()),
+  ).catch(error => {
+    indexPromise = null;
+    throw error;
+  });
+  return indexPromise;
+}
+
+onDataBackendChange(() => {
+  indexPromise = null;
+});
+
+/**
+ * Find every verse and word position where a Strong's number occurs.
+ *
+ * Results are in canonical order. Unknown numbers return an empty list.
+ */
+export async function findByStrongs(strongs: string): Promise<StrongsOccurrence[]> {
+  const key = normalizeStrongs(strongs);
+  const index = await loadStrongsIndex();
+
+  return Object.entries(index[key] ?? {}).map(([osisRef, positions]) => {
+    const [book, chapter, verse] = osisRef.split('.');
+    return {
+      book: fromOsis(book),
+      osisRef,
+      chapter: parseInt(chapter, 10),
+      verse: parseInt(verse, 10),
+      positions,
+    };
+  });
+}
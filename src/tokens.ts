@@ -0,0 +1,67 @@
+/**
+ * Punctuation and spacing of crosswire-KJV words.
+ *
+ * Each word's `text` is the bare word. Punctuation attached to it is kept in
+ * `leading` and `trailing`, and `space` holds the whitespace before it when
+ * that is not the default (none before the first word, one space otherwise):
+ *
+ *   { "text": "the", "leading": "(" }, ..., { "text": "Zoar", "trailing": ";)" }
+ *
+ * Joining `space + leading + text + trailing` over a verse's words gives the
+ * verse text exactly. Data imported before these fields existed keeps
+ * punctuation in `text`; the helpers here handle both forms.
+ */
+
+/**
+ * Minimal word shape used by these helpers.
+ */
+export interface TokenLike {
+  text: string;
+  /** Punctuation before the word, e.g. "(" */
+  leading?: string;
+  /** Punctuation after the word, e.g. ";)" */
+  trailing?: string;
+  /** Whitespace before the word, when not the default */
+  space?: string;
+}
+
+const PUNCTUATION_RE = /^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/su;
+const LEGACY_CLOSING_RE = /^[.,;:!?)\]]+$/;
+
+/**
+ * Split a token into leading punctuation, the bare word and trailing
+ * punctuation. Punctuation inside the word ("Lord's") is kept. A token that
+ * is only punctuation returns it all as `leading` with an empty `text`.
+ */
+export function splitPunctuation(token: string): { leading: string; text: string; trailing: string } {
+  const [, leading, text, trailing] = token.match(PUNCTUATION_RE)!;
+  return { leading, text, trailing };
+}
+
+/**
+ * A word with its attached punctuation, e.g. "Zoar;)".
+ */
+export function getWordForm(word: TokenLike): string {
+  return `${word.leading ?? ''}${word.text}${word.trailing ?? ''}`;
+}
+
+/**
+ * Whitespace before the word at `index`.
+ *
+ * Without a `space` field, legacy words that are only closing punctuation
+ * (";)") and words after an opening parenthesis are attached without a space.
+ */
+export function getSpaceBefore(words: TokenLike[], index: number): string {
+  if (index === 0) return '';
+  const word = words[index];
+  if (word.space !== undefined) return word.space;
+  if (LEGACY_CLOSING_RE.test(word.text) || words[index - 1].text.endsWith('(')) return '';
+  return ' ';
+}
+
+/**
+ * Join words into text, with their punctuation and spacing.
+ */
+export function joinWords(words: TokenLike[]): string {
+  return words.map((word, i) => getSpaceBefore(words, i) + getWordForm(word)).join('');
+}
@@ -0,0 +1,218 @@
+/**
+ * Data integrity checks for the crosswire-KJV verse corpus.
+ *
+ * Every verse listed in the versification table is read from the packed
+ * layout (or the legacy per-verse file) and checked for:
+ *
+ *   - missing, empty or unparseable verse data
+ *   - word positions that are not contiguous from 1
+ *   - `text` that does not match the verse's words (colophon words excluded)
+ *   - malformed Strong's numbers, or numbers from the wrong testament
+ *   - colophon words that disagree with `metadata.colophon_word_range`
+ */
+
+import { sourceInfo, loadVersification, listOsisBooks, toOsis, getTestament, type KjvVerseData, type KjvWord } from './source.js';
+import { loadPackedIndex, readPackedVerse } from './packed.js';
+import { joinWords } from './tokens.js';
+import { getDataBackend } from './backend.js';
+
+export type ValidationCheck = 'missing' | 'empty' | 'json' | 'positions' | 'text' | 'strongs' | 'colophon';
+
+/**
+ * A problem found in one verse.
+ */
+export interface ValidationIssue {
+  /** e.g. "Rom.16.27" */
+  osisRef: string;
+  check: ValidationCheck;
+  message: string;
+  /** Word position the problem was found at, if any */
+  position?: number;
+}
+
+/**
+ * Result of validating the corpus.
+ */
+export interface ValidationReport {
+  /** Number of verses checked */
+  verses: number;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Options for validating the corpus.
+ */
+export interface ValidateOptions {
+  /** Only validate these books (names or OSIS IDs) */
+  books?: string[];
+}
+
+const STRONGS_RE = /^[HG][1-9]\d{0,4}$/;
+
+/**
+ * Normalize spacing so that verse text and joined words compare equal
+ * regardless of spaces inside parentheses and brackets or before punctuation,
+ * which data imported before words had `space` fields does not record. Only
+ * used for such legacy verses; the others must match exactly.
+ */
+function normalizeSpacing(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/([([])\s+/g, '$1').replace(/\s+(?=[.,;:!?)\]])/g, '').trim();
+}
+
+function checkPositions(osisRef: string, words: KjvWord[]): ValidationIssue[] {
+  const index = words.findIndex((word, i) => word.position !== i + 1);
+  if (index === -1) return [];
+  return [{
+    osisRef,
+    check: 'positions',
+    message: `word ${index + 1} has position ${words[index].position}, expected ${index + 1}`,
+    position: index + 1,
+  }];
+}
+
+/**
+ * Whether words record their spacing and punctuation (`space`, `leading`,
+ * `trailing`), which legacy data keeps in `text` only.
+ */
+function hasTokenData(words: KjvWord[]): boolean {
+  return words.some(word => word.space !== undefined || word.leading !== undefined || word.trailing !== undefined);
+}
+
+function checkText(osisRef: string, data: KjvVerseData): ValidationIssue[] {
+  const words: KjvWord[] = data.words.filter((word: KjvWord) => word.metadata?.colophon !== true);
+  const normalize = hasTokenData(data.words) ? (text: string) => text : normalizeSpacing;
+  const expected = normalize(joinWords(words));
+  const actual = normalize(data.text ?? '');
+  if (actual === expected) return [];
+
+  let i = 0;
+  while (i < actual.length && actual[i] === expected[i]) i++;
+  return [{
+    osisRef,
+    check: 'text',
+    message: `text differs from words at character ${i + 1}: ${JSON.stringify(actual.slice(i, i + 20))} vs ${JSON.stringify(expected.slice(i, i + 20))}`,
+  }];
+}
+
+function checkStrongs(osisRef: string, book: string, words: KjvWord[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const prefix = getTestament(book) === 'OT' ? 'H' : 'G';
+
+  for (const word of words) {
+    const values = new Set([...(word.strongs ?? []), ...(word.lemmas ?? []).map(entry => entry.strongs)]);
+    for (const value of values) {
+      if (!STRONGS_RE.test(value)) {
+        issues.push({ osisRef, check: 'strongs', message: `malformed Strong's number '${value}'`, position: word.position });
+      } else if (value[0] !== prefix) {
+        issues.push({ osisRef, check: 'strongs', message: `Strong's number '${value}' is not from the ${prefix === 'H' ? 'Old' : 'New'} Testament`, position: word.position });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function checkColophon(osisRef: string, data: KjvVerseData): ValidationIssue[] {
+  const positions = data.words.filter((word: KjvWord) => word.metadata?.colophon === true).map((word: KjvWord) => word.position);
+  const range = data.metadata?.colophon_word_range;
+
+  if (!range) {
+    if (positions.length === 0 && !data.metadata?.has_colophon) return [];
+    return [{ osisRef, check: 'colophon', message: positions.length > 0 ? 'colophon words without colophon_word_range' : 'has_colophon without colophon_word_range' }];
+  }
+
+  const [start, end] = range;
+  const expected = Array.from({ length: Math.max(0, end - start + 1) }, (_, i) => start + i);
+  const issues: ValidationIssue[] = [];
+  if (!data.metadata?.has_colophon) {
+    issues.push({ osisRef, check: 'colophon', message: 'colophon_word_range without has_colophon' });
+  }
+  if (end !== data.words.length) {
+    issues.push({ osisRef, check: 'colophon', message: `colophon_word_range ends at ${end}, but the verse has ${data.words.length} words` });
+  }
+  if (positions.join() !== expected.join()) {
+    issues.push({ osisRef, check: 'colophon', message: `colophon words at ${positions[0] ?? 'none'}-${positions[positions.length - 1] ?? 'none'} (${positions.length}) do not match colophon_word_range ${start}-${end}` });
+  }
+  return issues;
+}
+
+/**
+ * Check one verse's data.
+ */
+export function validateVerse(book: string, chapter: number, verse: number, data: KjvVerseData): ValidationIssue[] {
+  const osisRef = `${toOsis(book)}.${chapter}.${verse}`;
+  if (!Array.isArray(data?.words)) {
+    return [{ osisRef, check: 'json', message: 'verse has no words array' }];
+  }
+
+  return [
+    ...checkPositions(osisRef, data.words),
+    ...checkText(osisRef, data),
+    ...checkStrongs(osisRef, book, data.words),
+    ...checkColophon(osisRef, data),
+  ];
+}
+
+/**
+ * Read a verse for validation, reporting missing, empty and unparseable data.
+ */
+async function readVerse(book: string, chapter: number, verse: number): Promise<KjvVerseData | ValidationIssue> {
+  const osisRef = `${book}.${chapter}.${verse}`;
+
+  const backend = await getDataBackend();
+  const index = await loadPackedIndex(sourceInfo.packedDir, book, backend);
+  if (index) {
+    const entry = index.chapters[String(chapter)]?.[verse - 1];
+    if (!entry) return { osisRef, check: 'missing', message: `not in packed index ${book}.index.json` };
+    if (entry[1] === 0) return { osisRef, check: 'empty', message: `empty line in packed/${book}.jsonl` };
+    try {
+      return (await readPackedVerse(sourceInfo.packedDir, book, chapter, verse, backend)) as KjvVerseData;
+    } catch (error) {
+      return { osisRef, check: 'json', message: `packed/${book}.jsonl: ${(error as Error).message}` };
+    }
+  }
+
+  const file = `${book}/${chapter}/${verse}.json`;
+  const content = await backend.readText(`${sourceInfo.dataDir}/${file}`);
+  if (content === null) {
+    return { osisRef, check: 'missing', message: `missing file ${file}` };
+  }
+
+  if (!content.trim()) return { osisRef, check: 'empty', message: `empty file ${file}` };
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    return { osisRef, check: 'json', message: `${file}: ${(error as Error).message}` };
+  }
+}
+
+/**
+ * Validate every verse in the versification table, in canonical order.
+ */
+export async function validateCorpus(options: ValidateOptions = {}): Promise<ValidationReport> {
+  const versification = await loadVersification();
+  const books = options.books ? options.books.map(toOsis) : listOsisBooks();
+  const report: ValidationReport = { verses: 0, issues: [] };
+
+  for (const book of books) {
+    const counts = versification[book];
+    if (!counts) {
+      report.issues.push({ osisRef: book, check: 'missing', message: 'book is not in the versification table' });
+      continue;
+    }
+
+    for (let chapter = 1; chapter <= counts.length; chapter++) {
+      for (let verse = 1; verse <= counts[chapter - 1]; verse++) {
+        report.verses++;
+        const data = await readVerse(book, chapter, verse);
+        if ('check' in data) {
+          report.issues.push(data);
+        } else {
+          report.issues.push(...validateVerse(book, chapter, verse, data));
+        }
+      }
+    }
+  }
+
+  return report;
+}
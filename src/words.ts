@@ -0,0 +1,157 @@
+/**
+ * Word-level helpers for crosswire-KJV verse data.
+ */
+
+/**
+ * Quotation context recorded on a word from OSIS `<q>` markup.
+ */
+export interface QuoteMetadata {
+  /** Nesting depth of quotations around the word (1 = outermost) */
+  quote_depth?: number;
+  /** Innermost attributed speaker (`who` attribute) */
+  speaker?: string;
+  /** The word is spoken by Jesus */
+  words_of_christ?: boolean;
+}
+
+/**
+ * Divine name flag recorded on a word from OSIS `<divineName>` markup.
+ */
+export interface DivineNameMetadata {
+  /** The word is the divine name, typeset in small capitals */
+  divine_name?: boolean;
+}
+
+/**
+ * Grouping recorded on the words of a `<w>` element that holds several
+ * English words ("I AM" for one H1961).
+ */
+export interface WordGroupMetadata {
+  /** Position of the first word of the group */
+  group?: number;
+  /** Index of the word within its group, from 0 */
+  group_index?: number;
+}
+
+/**
+ * Minimal word shape used by these helpers.
+ */
+export interface WordLike {
+  position: number;
+  text: string;
+  trailing?: string;
+  metadata?: Record<string, unknown>;
+  source?: { attrs?: Record<string, string> };
+}
+
+/**
+ * Words rendered from one source element.
+ */
+export interface WordGroup<W extends WordLike = WordLike> {
+  /** Position of the first word of the group */
+  id: number;
+  words: W[];
+}
+
+/**
+ * Get a word's quotation context, or null when it is not quoted.
+ */
+export function getQuoteContext(word: WordLike): QuoteMetadata | null {
+  const metadata = word.metadata as QuoteMetadata | undefined;
+  if (metadata?.quote_depth === undefined) return null;
+
+  return {
+    quote_depth: metadata.quote_depth,
+    ...(metadata.speaker && { speaker: metadata.speaker }),
+    ...(metadata.words_of_christ && { words_of_christ: true }),
+  };
+}
+
+/**
+ * Whether a word is part of the words of Christ (red-letter text).
+ */
+export function isWordsOfChrist(word: WordLike): boolean {
+  return word.metadata?.words_of_christ === true;
+}
+
+/**
+ * Get the words of a verse spoken by Jesus.
+ */
+export function getWordsOfChrist<W extends WordLike>(verse: { words: W[] }): W[] {
+  return verse.words.filter(isWordsOfChrist);
+}
+
+/**
+ * Get the words of a verse attributed to a speaker.
+ */
+export function getWordsBySpeaker<W extends WordLike>(verse: { words: W[] }, speaker: string): W[] {
+  return verse.words.filter(word => word.metadata?.speaker === speaker);
+}
+
+/**
+ * Whether a word is the divine name (OSIS `<divineName>`, printed "LORD" or
+ * "GOD" in small capitals).
+ */
+export function isDivineName(word: WordLike): boolean {
+  return word.metadata?.divine_name === true;
+}
+
+/**
+ * Get the words of a verse marked as the divine name.
+ */
+export function getDivineNames<W extends WordLike>(verse: { words: W[] }): W[] {
+  return verse.words.filter(isDivineName);
+}
+
+/**
+ * Whether two adjacent words without recorded groups look like they came
+ * from one element: same attributes, nothing supplied, and no punctuation
+ * between them.
+ */
+function continuesElement(previous: WordLike, word: WordLike): boolean {
+  if (!previous.source?.attrs || !word.source?.attrs) return false;
+  if (previous.metadata?.type === 'added' || previous.trailing || !/[\p{L}\p{N}]$/u.test(previous.text)) return false;
+  if ((previous.metadata?.colophon === true) !== (word.metadata?.colophon === true)) return false;
+
+  const attrs = previous.source.attrs;
+  const other = word.source.attrs;
+  const keys = Object.keys(attrs);
+  return keys.length === Object.keys(other).length && keys.every(key => attrs[key] === other[key]);
+}
+
+/**
+ * Group a verse's words by the source element they were rendered from.
+ *
+ * Uses the `group` recorded by the importer. For data imported before groups
+ * were recorded, adjacent words with identical attributes and no punctuation
+ * between them are grouped instead, which can also join two separate
+ * elements with the same tags.
+ */
+export function getWordGroups<W extends WordLike>(verse: { words: W[] }): WordGroup<W>[] {
+  const recorded = verse.words.some(word => typeof word.metadata?.group === 'number');
+  const groups: WordGroup<W>[] = [];
+
+  verse.words.forEach((word, i) => {
+    const last = groups[groups.length - 1];
+    const group = word.metadata?.group;
+    const joins = recorded
+      ? typeof group === 'number' && last?.id === group
+      : i > 0 && continuesElement(verse.words[i - 1], word);
+
+    if (joins) {
+      last.words.push(word);
+    } else {
+      groups.push({ id: typeof group === 'number' ? group : word.position, words: [word] });
+    }
+  });
+
+  return groups;
+}
+
+/**
+ * Get the group containing the word at a position, or null when there is no
+ * such word.
+ */
+export function getWordGroup<W extends WordLike>(verse: { words: W[] }, position: number): WordGroup<W> | null {
+  return getWordGroups(verse).find(group => group.words.some(word => word.position === position)) ?? null;
+}
@@ -0,0 +1,215 @@
+/**
+ * Data backend tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import { readFile } from 'fs/promises';
+import { join, dirname, normalize } from 'path';
+import { fileURLToPath } from 'url';
+import type { AddressInfo } from 'net';
+import { createFetchBackend, createMemoryBackend, setDataBackend, type DataBackend } from '../src/backend.js';
+import { createFsBackend } from '../src/fs-backend.js';
+import { packBook, readPackedVerse, readPackedChapter } from '../src/packed.js';
+import { loadVerse, loadVersification, getVerseCacheStats, createSource, sourceInfo } from '../src/source.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT_DIR = join(__dirname, '..');
+
+/**
+ * Minimal static file server for the package root, with optional support
+ * for Range requests.
+ */
+function serveStatic(ranges: boolean): Promise<{ server: Server; url: string; requests: string[] }> {
+  const requests: string[] = [];
+  const server = createServer(async (request, response) => {
+    requests.push(request.url!);
+    const path = join(ROOT_DIR, normalize(decodeURIComponent(request.url!.split('?')[0])));
+    let content: Buffer;
+    try {
+      content = await readFile(path);
+    } catch {
+      response.writeHead(404).end();
+      return;
+    }
+
+    const match = ranges ? /^bytes=(\d+)-(\d+)$/.exec(request.headers.range ?? '') : null;
+    if (match) {
+      const [start, end] = [Number(match[1]), Number(match[2])];
+      response.writeHead(206, { 'Content-Range': `bytes ${start}-${end}/${content.length}` });
+      response.end(content.subarray(start, end + 1));
+    } else {
+      response.writeHead(200).end(content);
+    }
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}/`, requests });
+    });
+  });
+}
+
+function closeServer(server: Server): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+const { content: packedJohn, index: packedJohnIndex } = packBook('John', [
+  { chapter: 1, verse: 1, data: { text: 'In the beginning was the Word', words: [] } },
+  { chapter: 1, verse: 2, data: { text: 'The same was in the beginning with God.', words: [] } },
+  { chapter: 3, verse: 16, data: { text: 'For God so loved the world — λόγος', words: [] } },
+]);
+
+describe('memory backend', () => {
+  const backend = createMemoryBackend({
+    'packed/John.jsonl': packedJohn,
+    'packed/John.index.json': JSON.stringify(packedJohnIndex),
+  });
+
+  it('should read whole files and report missing ones', async () => {
+    expect(await backend.readText('packed/John.jsonl')).toBe(packedJohn);
+    expect(await backend.readText('packed/Gen.jsonl')).toBeNull();
+    await expect(backend.readRange('packed/Gen.jsonl', 0, 1)).rejects.toThrow('File not found');
+  });
+
+  it('should read packed verses by byte range', async () => {
+    const verse = await readPackedVerse('packed', 'John', 3, 16, backend);
+    expect(verse?.text).toBe('For God so loved the world — λόγος');
+
+    const chapter = await readPackedChapter('packed', 'John', 1, backend);
+    expect(chapter?.map(data => data.text)).toEqual([
+      'In the beginning was the Word',
+      'The same was in the beginning with God.',
+    ]);
+    expect(await readPackedVerse('packed', 'Gen', 1, 1, backend)).toBeNull();
+  });
+});
+
+describe('fs backend', () => {
+  it('should read files relative to the package root', async () => {
+    const backend = createFsBackend();
+    const content = await backend.readText(sourceInfo.versificationFile);
+
+    expect(JSON.parse(content!).Gen).toHaveLength(50);
+    expect(await backend.readText(`${sourceInfo.dataDir}/missing.json`)).toBeNull();
+    expect(await backend.readRange(sourceInfo.versificationFile, 0, 1)).toBe('{');
+  });
+});
+
+describe('fetch backend', () => {
+  let withRanges: Awaited<ReturnType<typeof serveStatic>>;
+  let withoutRanges: Awaited<ReturnType<typeof serveStatic>>;
+
+  beforeAll(async () => {
+    withRanges = await serveStatic(true);
+    withoutRanges = await serveStatic(false);
+  });
+
+  afterAll(async () => {
+    await closeServer(withRanges.server);
+    await closeServer(withoutRanges.server);
+  });
+
+  afterEach(() => {
+    setDataBackend(createFsBackend());
+  });
+
+  it('should read files and report missing ones', async () => {
+    const backend = createFetchBackend(withRanges.url);
+    const content = await backend.readText(sourceInfo.versificationFile);
+
+    expect(JSON.parse(content!).Rev).toHaveLength(22);
+    expect(await backend.readText(`${sourceInfo.dataDir}/missing.json`)).toBeNull();
+  });
+
+  it('should read byte ranges with and without server Range support', async () => {
+    const path = sourceInfo.versificationFile;
+    const expected = await createFsBackend().readRange(path, 20, 40);
+    for (const { url } of [withRanges, withoutRanges]) {
+      expect(await createFetchBackend(url).readRange(path, 20, 40)).toBe(expected);
+    }
+    expect(expected).toHaveLength(40);
+  });
+
+  it('should send configured headers', async () => {
+    const seen: Array<Record<string, string>> = [];
+    const backend = createFetchBackend(withRanges.url, {
+      headers: { Authorization: 'Bearer token' },
+      fetch: (input, init) => {
+        seen.push(init?.headers as Record<string, string>);
+        return fetch(input, init);
+      },
+    });
+
+    await backend.readText(sourceInfo.versificationFile);
+    expect(seen[0]).toEqual({ Authorization: 'Bearer token' });
+  });
+
+  it('should load verses through the source when chosen at registration', async () => {
+    const expected = await loadVerse('John', 3, 16);
+    const source = createSource({ backend: createFetchBackend(withRanges.url) });
+
+    const verse = await source.loadVerse('John', 3, 16);
+    expect(verse).toEqual(expected);
+    expect(verse).not.toBe(expected);
+    expect(withRanges.requests).toContain(`/${sourceInfo.dataDir}/John/3/16.json`);
+    expect(await source.loadChapter('Ps', 117)).toHaveLength(2);
+    expect(withRanges.requests).toContain(`/${sourceInfo.versificationFile}`);
+  });
+
+  it('should keep the package-wide backend when a source has its own', async () => {
+    const source = createSource({ backend: createMemoryBackend({
+      [`${sourceInfo.dataDir}/John/3/16.json`]: JSON.stringify({ text: 'from the source backend', words: [] }),
+    }) });
+
+    expect((await source.loadVerse('John', 3, 16)).text).toBe('from the source backend');
+    expect((await loadVerse('John', 3, 16)).text).toMatch(/^For God so loved the world/);
+    expect((await source.loadVerse('John', 3, 16)).text).toBe('from the source backend');
+    expect((await loadVersification()).Gen).toHaveLength(50);
+  });
+});
+
+describe('setDataBackend', () => {
+  afterEach(() => {
+    setDataBackend(createFsBackend());
+  });
+
+  it('should discard data loaded from the previous backend', async () => {
+    await loadVerse('John', 3, 16);
+
+    const backend: DataBackend = createMemoryBackend({
+      [sourceInfo.versificationFile]: JSON.stringify({ John: [0, 0, 16] }),
+      [`${sourceInfo.dataDir}/John/3/16.json`]: JSON.stringify({ text: 'replaced', words: [] }),
+    });
+    setDataBackend(backend);
+
+    expect((await loadVerse('John', 3, 16)).text).toBe('replaced');
+    expect((await loadVersification()).John).toEqual([0, 0, 16]);
+    await expect(loadVerse('John', 3, 17)).rejects.toThrow('Verse John 3:17 not found in crosswire-KJV');
+  });
+
+  it('should not cache reads that finish after the backend changed', async () => {
+    let release!: () => void;
+    const released = new Promise<void>(resolve => { release = resolve; });
+    const old = createMemoryBackend({ [`${sourceInfo.dataDir}/John/3/16.json`]: JSON.stringify({ text: 'old', words: [] }) });
+    setDataBackend({
+      readText: async path => {
+        await released;
+        return old.readText(path);
+      },
+      readRange: (path, offset, length) => old.readRange(path, offset, length),
+    });
+
+    const pending = loadVerse('John', 3, 16);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    setDataBackend(createMemoryBackend({ [`${sourceInfo.dataDir}/John/3/16.json`]: JSON.stringify({ text: 'new', words: [] }) }));
+    release();
+
+    expect((await pending).text).toBe('old');
+    expect((await loadVerse('John', 3, 16)).text).toBe('new');
+    expect((await loadVerse('John', 3, 16)).text).toBe('new');
+    expect(getVerseCacheStats().entries).toBe(1);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Book name resolution tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveBook, listBooks, listOsisBooks, loadVerse, UnknownBookError } from '../src/source.js';
+import { BOOK_ALIASES } from '../src/aliases.js';
+
+describe('resolveBook', () => {
+  it('should resolve names, abbreviations and aliases', () => {
+    const cases: Array<[string, string, string]> = [
+      ['john', 'John', 'John'],
+      ['Jn', 'John', 'John'],
+      ['1 Jn', '1 John', '1John'],
+      ['I John', '1 John', '1John'],
+      ['First John', '1 John', '1John'],
+      ['iii john', '3 John', '3John'],
+      ['Song of Songs', 'Song of Solomon', 'Song'],
+      ['Psalm', 'Psalms', 'Ps'],
+      ['Rev.', 'Revelation', 'Rev'],
+      ['  GENESIS ', 'Genesis', 'Gen'],
+      ['II Kgs', '2 Kings', '2Kgs'],
+    ];
+
+    for (const [input, name, osis] of cases) {
+      expect(resolveBook(input), input).toEqual({ name, osis });
+    }
+  });
+
+  it('should resolve every book name and OSIS ID', () => {
+    const osisBooks = listOsisBooks();
+    listBooks().forEach((name, i) => {
+      expect(resolveBook(name)).toEqual({ name, osis: osisBooks[i] });
+      expect(resolveBook(osisBooks[i])).toEqual({ name, osis: osisBooks[i] });
+    });
+  });
+
+  it('should not map an alias to more than one book', () => {
+    for (const [osis, aliases] of Object.entries(BOOK_ALIASES)) {
+      for (const alias of aliases) {
+        const resolved = resolveBook(alias).osis;
+        expect(resolved, alias).toBe(osis);
+      }
+    }
+    expect(Object.keys(BOOK_ALIASES)).toEqual(listOsisBooks());
+  });
+
+  it('should throw UnknownBookError with suggestions', () => {
+    try {
+      resolveBook('Jhon');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(UnknownBookError);
+      expect((error as UnknownBookError).suggestions).toContain('John');
+      expect((error as Error).message).toMatch(/Unknown book 'Jhon'.*Did you mean: .*John/);
+    }
+
+    expect(() => resolveBook('Phi')).toThrow(/Did you mean: Philippians, Philemon/);
+    expect(() => resolveBook('Tobit')).toThrow("Unknown book 'Tobit'");
+  });
+});
+
+describe('loadVerse book resolution', () => {
+  it('should load verses by alias', async () => {
+    const verse = await loadVerse('jn', 3, 16);
+    expect(verse.text).toMatch(/^For God so loved the world/);
+  });
+
+  it('should report unknown books instead of a missing verse', async () => {
+    await expect(loadVerse('Jhon', 3, 16)).rejects.toThrow(UnknownBookError);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Verse cache tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { LruCache, mapConcurrent, deepFreeze } from '../src/cache.js';
+import {
+  loadVerse,
+  loadChapter,
+  getVerseCount,
+  configureVerseCache,
+  getVerseCacheStats,
+  clearVerseCache,
+  preload,
+  sourceInfo,
+  VerseNotFoundError,
+} from '../src/source.js';
+import { createMemoryBackend, setDataBackend } from '../src/backend.js';
+import { createFsBackend } from '../src/fs-backend.js';
+
+describe('LruCache', () => {
+  it('should evict the least recently used entries over budget', () => {
+    const cache = new LruCache<string>(10);
+    cache.set('a', 'A', 4);
+    cache.set('b', 'B', 4);
+    expect(cache.get('a')).toBe('A');
+
+    cache.set('c', 'C', 4);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe('A');
+    expect(cache.get('c')).toBe('C');
+    expect(cache.stats()).toEqual({ hits: 3, misses: 1, evictions: 1, entries: 2, bytes: 8, maxBytes: 10 });
+  });
+
+  it('should not cache entries larger than the budget', () => {
+    const cache = new LruCache<string>(10);
+    cache.set('a', 'A', 11);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.stats().bytes).toBe(0);
+  });
+
+  it('should evict on resize and reset on clear', () => {
+    const cache = new LruCache<string>(10);
+    cache.set('a', 'A', 4);
+    cache.set('b', 'B', 4);
+    cache.resize(5);
+    expect(cache.stats()).toMatchObject({ entries: 1, bytes: 4, evictions: 1, maxBytes: 5 });
+    expect(cache.get('b')).toBe('B');
+
+    cache.clear();
+    expect(cache.stats()).toEqual({ hits: 0, misses: 0, evictions: 0, entries: 0, bytes: 0, maxBytes: 5 });
+  });
+});
+
+describe('mapConcurrent', () => {
+  it('should keep result order and limit calls in flight', async () => {
+    let active = 0;
+    let peak = 0;
+    const results = await mapConcurrent([30, 10, 20, 0, 5], 2, async (delay, i) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      active--;
+      return i * 2;
+    });
+
+    expect(results).toEqual([0, 2, 4, 6, 8]);
+    expect(peak).toBe(2);
+  });
+
+  it('should handle an empty list', async () => {
+    expect(await mapConcurrent([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe('deepFreeze', () => {
+  it('should freeze nested objects and arrays', () => {
+    const value = deepFreeze({ words: [{ text: 'Jesus', strongs: ['G2424'] }] });
+
+    expect(Object.isFrozen(value.words[0].strongs)).toBe(true);
+    expect(() => value.words.push({ text: 'wept', strongs: [] })).toThrow(TypeError);
+    expect(deepFreeze(null)).toBeNull();
+  });
+});
+
+describe('verse cache', () => {
+  beforeEach(() => {
+    configureVerseCache({ maxBytes: 64 * 1024 * 1024 });
+    clearVerseCache();
+  });
+
+  afterAll(() => {
+    configureVerseCache({ maxBytes: 64 * 1024 * 1024, concurrency: 16 });
+    clearVerseCache();
+  });
+
+  it('should serve repeated verse loads from the cache', async () => {
+    const first = await loadVerse('John', 3, 16);
+    const second = await loadVerse('John', 3, 16);
+
+    expect(second).toBe(first);
+    expect(getVerseCacheStats()).toMatchObject({ hits: 1, misses: 1, entries: 1 });
+    expect(getVerseCacheStats().bytes).toBeGreaterThan(0);
+  });
+
+  it('should cache chapter verses for later verse loads', async () => {
+    const verses = await loadChapter('Ps', 117);
+    expect(verses).toHaveLength(2);
+    expect(getVerseCacheStats().entries).toBe(2);
+
+    expect(await loadVerse('Psalms', 117, 2)).toBe(verses[1]);
+    expect(await loadChapter('Ps', 117)).toEqual(verses);
+  });
+
+  it('should not let callers modify cached verses', async () => {
+    const verse = await loadVerse('John', 11, 35);
+    const [chapterVerse] = await loadChapter('Ps', 117);
+
+    expect(() => { verse.words[0].text = 'Moses'; }).toThrow(TypeError);
+    expect(() => { chapterVerse.text = ''; }).toThrow(TypeError);
+    expect((await loadVerse('John', 11, 35)).words[0].text).toBe('Jesus');
+
+    const copy = structuredClone(verse);
+    copy.words[0].text = 'Moses';
+    expect((await loadVerse('John', 11, 35)).words[0].text).toBe('Jesus');
+  });
+
+  it('should return fresh objects when decoding morphology', async () => {
+    const plain = await loadVerse('John', 1, 1);
+    const decoded = await loadVerse('John', 1, 1, { morphology: true });
+
+    expect(decoded).not.toBe(plain);
+    expect(plain.words.some((word: { morphology?: unknown }) => word.morphology)).toBe(false);
+  });
+
+  it('should not cache with a zero budget', async () => {
+    configureVerseCache({ maxBytes: 0 });
+    await loadVerse('John', 3, 16);
+    await loadVerse('John', 3, 16);
+
+    expect(getVerseCacheStats()).toMatchObject({ hits: 0, misses: 2, entries: 0, bytes: 0 });
+  });
+
+  it('should preload books within the budget', async () => {
+    configureVerseCache({ concurrency: 4 });
+    const count = await preload(['Jude', 'Obad']);
+
+    expect(count).toBe(await getVerseCount('Jude', 1) + await getVerseCount('Obad', 1));
+    expect(getVerseCacheStats().entries).toBe(count);
+
+    const before = getVerseCacheStats().hits;
+    await loadChapter('Jude', 1);
+    expect(getVerseCacheStats().hits - before).toBe(await getVerseCount('Jude', 1));
+  });
+
+  it('should keep the not-found error for missing verses', async () => {
+    await expect(loadVerse('John', 3, 99)).rejects.toThrow('Verse John 3:99 not found in crosswire-KJV');
+    await expect(loadVerse('John', 3, 99)).rejects.toThrow(VerseNotFoundError);
+  });
+
+  it('should count verses in UTF-8 bytes', async () => {
+    const content = JSON.stringify({ text: '¶ Selah—', words: [] });
+    setDataBackend(createMemoryBackend({ [`${sourceInfo.dataDir}/Ps/3/2.json`]: content }));
+    try {
+      await loadVerse('Ps', 3, 2);
+      expect(getVerseCacheStats().bytes).toBe(Buffer.byteLength(content));
+      expect(getVerseCacheStats().bytes).toBeGreaterThan(content.length);
+    } finally {
+      setDataBackend(createFsBackend());
+    }
+  });
+});
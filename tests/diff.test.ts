@@ -0,0 +1,73 @@
+/**
+ * Import diff tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffVerses, formatDiff } from '../src/diff.js';
+
+interface Word {
+  position: number;
+  text: string;
+  metadata?: Record<string, unknown>;
+}
+
+function verse(chapter: number, number: number, words: string[], extra: Record<string, unknown> = {}) {
+  const entries: Word[] = words.map((text, i) => ({ position: i + 1, text }));
+  return {
+    book: 'Gen',
+    chapter,
+    verse: number,
+    data: { text: words.join(' '), words: entries, ...extra },
+  };
+}
+
+describe('diffVerses', () => {
+  it('should report added, removed and changed verses', () => {
+    const before = [verse(1, 1, ['In', 'the', 'beginning']), verse(1, 2, ['And']), verse(1, 3, ['Let'])];
+    const after = [verse(1, 1, ['In', 'the', 'beginning']), verse(1, 2, ['And', 'the']), verse(1, 4, ['God'])];
+
+    const diff = diffVerses(before, after);
+    expect(diff.added).toEqual(['Gen.1.4']);
+    expect(diff.removed).toEqual(['Gen.1.3']);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.changed).toEqual([
+      { osisRef: 'Gen.1.2', addedWords: [2], removedWords: [], changedWords: [], fields: ['text'] },
+    ]);
+  });
+
+  it('should compare words by position and ignore key order', () => {
+    const before = [verse(1, 1, ['In', 'the', 'beginning'])];
+    const after = [verse(1, 1, ['In', 'the', 'beginning'])];
+    after[0].data.words[0] = { text: 'In', position: 1 };
+    after[0].data.words[2] = { position: 3, text: 'beginning', metadata: { divine_name: true } };
+
+    const [change] = diffVerses(before, after).changed;
+    expect(change.changedWords).toEqual([3]);
+    expect(change.fields).toEqual([]);
+  });
+
+  it('should report changed verse fields', () => {
+    const before = [verse(1, 1, ['In'])];
+    const after = [verse(1, 1, ['In'], { notes: [{ type: 'study', position: 1, text: 'Or, at first' }] })];
+    expect(diffVerses(before, after).changed[0].fields).toEqual(['notes']);
+  });
+});
+
+describe('formatDiff', () => {
+  it('should summarize counts and list verses up to a limit', () => {
+    const before = [verse(1, 1, ['In']), verse(1, 2, ['And']), verse(1, 3, ['Let'])];
+    const report = formatDiff(diffVerses(before, [verse(1, 1, ['In', 'the'])]), 1);
+
+    expect(report.split('\n')).toEqual([
+      'Verses: 0 added, 2 removed, 1 changed, 0 unchanged',
+      'Words: 1 added, 0 removed, 0 changed',
+      '',
+      'Removed verses:',
+      '  Gen.1.2',
+      '  ... and 1 more',
+      '',
+      'Changed verses:',
+      '  Gen.1.1: +1 words; text changed',
+    ]);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Book module generation tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { loadBook } from '../scripts/generate-books.js';
+import { createMemoryBackend, setDataBackend } from '../src/backend.js';
+import { createFsBackend } from '../src/fs-backend.js';
+import { loadVerse, sourceInfo } from '../src/source.js';
+
+describe('loadBook', () => {
+  afterEach(() => {
+    setDataBackend(createFsBackend());
+  });
+
+  it('should load every chapter in the versification table', async () => {
+    const chapters = await loadBook('Obadiah');
+
+    expect(chapters).toHaveLength(1);
+    expect(chapters[0]).toHaveLength(21);
+    expect(chapters[0][20]).toEqual(await loadVerse('Obadiah', 1, 21));
+    expect((await loadBook('Ruth')).map(verses => verses.length)).toEqual([22, 23, 18, 22]);
+  });
+
+  it('should fail instead of truncating a book when a chapter cannot be loaded', async () => {
+    setDataBackend(createMemoryBackend({
+      [sourceInfo.versificationFile]: JSON.stringify({ Jude: [1, 1] }),
+      [`${sourceInfo.dataDir}/Jude/1/1.json`]: JSON.stringify({ text: 'Jude', words: [] }),
+    }));
+
+    await expect(loadBook('Jude')).rejects.toThrow('Chapter Jude 2 not found in crosswire-KJV');
+  });
+});
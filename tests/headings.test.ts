@@ -0,0 +1,56 @@
+/**
+ * Heading selection tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { selectHeadings, loadHeadings, loadVerseHeadings, type HeadingTable } from '../src/headings.js';
+import { createMemoryBackend, setDataBackend } from '../src/backend.js';
+import { createFsBackend } from '../src/fs-backend.js';
+import { sourceInfo } from '../src/source.js';
+
+const table: HeadingTable = {
+  Ps: [
+    { level: 'book', type: 'main', canonical: false, text: 'THE BOOK OF PSALMS' },
+    { level: 'chapter', type: 'psalm', canonical: true, text: 'A Psalm of David, when he fled from Absalom his son.', chapter: 3 },
+    { level: 'chapter', type: 'acrostic', canonical: true, text: 'ALEPH.', chapter: 119 },
+    { level: 'verse', type: 'acrostic', canonical: true, text: 'BETH.', chapter: 119, verse: 9 },
+  ],
+};
+
+describe('selectHeadings', () => {
+  it('should return every heading of a book by name or OSIS ID', () => {
+    expect(selectHeadings(table, 'Psalms')).toHaveLength(4);
+    expect(selectHeadings(table, 'Ps')).toHaveLength(4);
+  });
+
+  it('should return chapter and verse headings of one chapter', () => {
+    expect(selectHeadings(table, 'Psalms', 119).map(h => h.text)).toEqual(['ALEPH.', 'BETH.']);
+    expect(selectHeadings(table, 'Psalms', 3).map(h => h.type)).toEqual(['psalm']);
+  });
+
+  it('should return nothing for books without headings', () => {
+    expect(selectHeadings(table, 'Genesis')).toEqual([]);
+    expect(selectHeadings(table, 'Psalms', 1)).toEqual([]);
+  });
+});
+
+describe('loadHeadings', () => {
+  afterEach(() => {
+    setDataBackend(createFsBackend());
+  });
+
+  it('should load the heading table through the data backend', async () => {
+    setDataBackend(createMemoryBackend({ [`${sourceInfo.dataDir}/headings.json`]: JSON.stringify(table) }));
+
+    expect(await loadHeadings('Psalms', 3)).toEqual([table.Ps[1]]);
+    expect(await loadVerseHeadings('Psalms', 119, 9)).toEqual([table.Ps[3]]);
+    expect(await loadVerseHeadings('Psalms', 119, 10)).toEqual([]);
+  });
+
+  it('should return no headings when the data has none', async () => {
+    setDataBackend(createMemoryBackend({}));
+
+    expect(await loadHeadings('Psalms')).toEqual([]);
+    expect(await loadVerseHeadings('Psalms', 3, 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * OSIS importer tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseOsis, toVerseData } from '../scripts/import.js';
+
+/**
+ * Wrap book content in an OSIS document.
+ */
+function osis(book: string, content: string): string {
+  return `<osis xmlns="http://www.bibletechnologies.net/2003/OSIS/namespace"><osisText>` +
+    `<div type="book" osisID="${book}">${content}</div></osisText></osis>`;
+}
+
+/**
+ * Parse one chapter and return the verse data the importer would write.
+ */
+function importChapter(book: string, chapter: number, content: string) {
+  return parseOsis(osis(book, `<chapter osisID="${book}.${chapter}">${content}</chapter>`)).verses.map(toVerseData);
+}
+
+describe('parseOsis', () => {
+  it('should keep notes with the word they follow', () => {
+    const [verse] = importChapter('Gen', 1, '<verse osisID="Gen.1.2">' +
+      '<w lemma="strong:H0776">the earth</w> <w lemma="strong:H01961">was</w>' +
+      '<note type="translation" n="a" osisRef="Gen.1.2" osisID="Gen.1.2!note.a"><catchWord>was</catchWord>' +
+      ' Heb.\n  became</note> without form</verse>');
+
+    expect(verse.text).toBe('the earth was without form');
+    expect(verse.words.map(w => w.text)).toEqual(['the', 'earth', 'was', 'without', 'form']);
+    expect(verse.notes).toEqual([
+      { type: 'translation', position: 3, text: 'Heb. became', catchWord: 'was', n: 'a', osisRef: 'Gen.1.2', osisID: 'Gen.1.2!note.a' },
+    ]);
+  });
+
+  it('should leave verses without notes unchanged', () => {
+    const [verse] = importChapter('Gen', 1, '<verse osisID="Gen.1.1"><w lemma="strong:H07225">In the beginning</w></verse>');
+
+    expect(verse.notes).toBeUndefined();
+  });
+
+  it('should tag quotations with their depth and speaker', () => {
+    const [verse] = importChapter('John', 3, '<verse osisID="John.3.3">' +
+      '<w lemma="strong:G2424">Jesus</w> answered, <q who="Jesus" marker="">Verily, ' +
+      '<q who="Nicodemus" marker="">Rabbi,</q> we</q> know</verse>');
+
+    expect(verse.words.map(w => [w.text, w.metadata])).toEqual([
+      ['Jesus', undefined],
+      ['answered', undefined],
+      ['Verily', { quote_depth: 1, speaker: 'Jesus', words_of_christ: true }],
+      ['Rabbi', { quote_depth: 2, speaker: 'Nicodemus', words_of_christ: true }],
+      ['we', { quote_depth: 1, speaker: 'Jesus', words_of_christ: true }],
+      ['know', undefined],
+    ]);
+    expect(verse.metadata).toEqual({ has_quotation: true, has_words_of_christ: true, speakers: ['Jesus', 'Nicodemus'] });
+  });
+
+  it('should carry milestone quotations across verses', () => {
+    const [first, second, third] = importChapter('Matt', 5, '<verse osisID="Matt.5.2">he taught them, saying,</verse>' +
+      '<verse osisID="Matt.5.3"><q who="Jesus" sID="q1" marker=""/>Blessed are the poor</verse>' +
+      '<verse osisID="Matt.5.4">Blessed are they<q eID="q1" marker=""/> that mourn</verse>');
+
+    expect(first.metadata).toBeUndefined();
+    expect(second.words.every(w => w.metadata?.words_of_christ)).toBe(true);
+    expect(third.words.map(w => w.metadata?.speaker ?? null)).toEqual(['Jesus', 'Jesus', 'Jesus', null, null]);
+  });
+
+  it('should attach titles to the book, chapter or verse they precede', () => {
+    const { headings } = parseOsis(osis('Ps', '<title type="main">THE BOOK OF PSALMS</title>' +
+      '<chapter osisID="Ps.3"><title type="psalm" canonical="true">A Psalm of David.</title>' +
+      '<verse osisID="Ps.3.1">LORD, how are they increased</verse>' +
+      '<verse osisID="Ps.3.2">Many there be</verse>' +
+      '<title type="acrostic" canonical="true">ALEPH.</title>' +
+      '<verse osisID="Ps.3.3">But thou</verse></chapter>'));
+
+    expect(headings).toEqual([
+      { book: 'Ps', level: 'book', type: 'main', canonical: false, text: 'THE BOOK OF PSALMS' },
+      { book: 'Ps', level: 'chapter', type: 'psalm', canonical: true, text: 'A Psalm of David.', chapter: 3 },
+      { book: 'Ps', level: 'verse', type: 'acrostic', canonical: true, text: 'ALEPH.', chapter: 3, verse: 3 },
+    ]);
+  });
+
+  it('should record paragraph, stanza and line breaks', () => {
+    const [first, second] = importChapter('Ps', 23, '<verse osisID="Ps.23.1"><milestone type="x-p" marker="¶"/>The LORD ' +
+      '<lg><l level="1">is my shepherd;</l><l level="2">I shall not want.</l></lg></verse>' +
+      '<verse osisID="Ps.23.2"><p>He maketh me</p></verse>');
+
+    expect(first.breaks).toEqual([
+      { type: 'paragraph', position: 1, marker: '¶' },
+      { type: 'stanza', position: 3 },
+      { type: 'line', position: 3, level: 1 },
+      { type: 'line', position: 6, level: 2 },
+    ]);
+    expect(second.breaks).toEqual([{ type: 'paragraph', position: 1 }]);
+  });
+
+  it('should mark the divine name and supplied words', () => {
+    const [verse] = importChapter('Gen', 2, '<verse osisID="Gen.2.4">the <w lemma="strong:H03068"><divineName>LORD</divineName></w> ' +
+      '<w lemma="strong:H0430">God</w> <transChange type="added">made</transChange> ' +
+      '<transChange type="added">it to be</transChange></verse>');
+
+    expect(verse.words.map(w => [w.text, w.metadata])).toEqual([
+      ['the', undefined],
+      ['LORD', { divine_name: true }],
+      ['God', undefined],
+      ['made', { type: 'added' }],
+      ['it to be', { type: 'added' }],
+    ]);
+  });
+
+  it('should split punctuation off words and keep spacing', () => {
+    const [verse] = importChapter('Gen', 3, '<verse osisID="Gen.3.9">And he said, (<w lemma="strong:H0346">Where</w> ' +
+      'art thou?) “<w>Speak</w>”—<w>now</w></verse>');
+
+    expect(verse.text).toBe('And he said, (Where art thou?) “Speak”—now');
+    expect(verse.words.map(({ text, leading, trailing, space }) => ({ text, leading, trailing, space }))).toEqual([
+      { text: 'And' },
+      { text: 'he' },
+      { text: 'said', trailing: ',' },
+      { text: 'Where', leading: '(' },
+      { text: 'art' },
+      { text: 'thou', trailing: '?)' },
+      { text: 'Speak', leading: '“', trailing: '”—' },
+      { text: 'now', space: '' },
+    ]);
+  });
+
+  it('should group the words of one source element', () => {
+    const [verse] = importChapter('Obad', 1, '<verse osisID="Obad.1.12">looked <w lemma="strong:H03117">on the day</w> ' +
+      '<w lemma="strong:H0251">of thy brother</w></verse>');
+
+    expect(verse.words.map(w => [w.text, w.metadata?.group, w.metadata?.group_index])).toEqual([
+      ['looked', undefined, undefined],
+      ['on', 2, 0],
+      ['the', 2, 1],
+      ['day', 2, 2],
+      ['of', 5, 0],
+      ['thy', 5, 1],
+      ['brother', 5, 2],
+    ]);
+    expect(verse.words[1].strongs).toEqual(['H3117']);
+  });
+
+  it('should append colophons to the last verse with their groups renumbered', () => {
+    const { verses } = parseOsis(osis('Rom', '<chapter osisID="Rom.16"><verse osisID="Rom.16.27">' +
+      '<w lemma="strong:G3441">only</w> <w lemma="strong:G4680">wise</w></verse></chapter>' +
+      '<div type="colophon" osisID="Rom.c"><w lemma="strong:G1125" src="15">Written</w> ' +
+      '<w lemma="strong:G4314" src="13">to</w> <w lemma="strong:G4514" src="14">the Romans</w> ' +
+      '<transChange type="added">and sent</transChange> <w lemma="strong:G3588 strong:G1577" src="22 25">of the church</w></div>'));
+    const verse = toVerseData(verses[0]);
+
+    expect(verse.text).toBe('only wise');
+    expect(verse.metadata).toEqual({ has_colophon: true, colophon_word_range: [3, 10], colophon_type: 'subscription' });
+    expect(verse.words.map(w => [w.position, w.text, w.metadata?.group, w.metadata?.group_index])).toEqual([
+      [1, 'only', undefined, undefined],
+      [2, 'wise', undefined, undefined],
+      [3, 'Written', undefined, undefined],
+      [4, 'to', undefined, undefined],
+      [5, 'the', 5, 0],
+      [6, 'Romans', 5, 1],
+      [7, 'and sent', undefined, undefined],
+      [8, 'of', 8, 0],
+      [9, 'the', 8, 1],
+      [10, 'church', 8, 2],
+    ]);
+    expect(verse.words.slice(2).every(w => w.metadata?.colophon)).toBe(true);
+  });
+});
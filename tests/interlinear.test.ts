@@ -0,0 +1,46 @@
+/**
+ * Reverse interlinear tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect } from 'vitest';
+import { alignInterlinear, loadInterlinear } from '../src/interlinear.js';
+
+describe('alignInterlinear', () => {
+  it('should order words by source position and group their English words', async () => {
+    const { words, unaligned } = await loadInterlinear('John', 3, 16);
+
+    expect(unaligned).toEqual([]);
+    // The articles at TR positions 12 and 17 are not rendered in English
+    expect(words).toHaveLength(24);
+    expect(words.map(word => word.src)).not.toContain(12);
+    expect(words.slice(0, 5).map(word => [word.lemma, word.english.map(w => w.text).join(' ')])).toEqual([
+      ['ουτως', 'so'],
+      ['γαρ', 'For'],
+      ['ηγαπησεν', 'loved'],
+      ['ο', 'God'],
+      ['θεος', 'God'],
+    ]);
+  });
+
+  it('should pair each source word with its own Strong\'s number and morphology', async () => {
+    const { words } = await loadInterlinear('John', 3, 16);
+    const world = words.find(word => word.src === 7)!;
+
+    expect(world.strongs).toBe('G2889');
+    expect(world.morphology?.code).toBe('N-ASM');
+    expect(world.english.map(w => w.position)).toEqual([5, 6]);
+
+    const perish = words.find(word => word.src === 22)!;
+    expect(perish.english.map(w => w.text)).toEqual(['should', 'perish,']);
+  });
+
+  it('should leave words without a source position unaligned', () => {
+    const verse = {
+      words: [
+        { position: 1, text: 'In', lemma: 'strong:H07225', morph: 'strongMorph:TH8799' },
+        { position: 2, text: 'was', metadata: { type: 'added' } },
+      ],
+    };
+    expect(alignInterlinear(verse, 'Genesis')).toEqual({ words: [], unaligned: verse.words });
+  });
+});
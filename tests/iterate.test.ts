@@ -0,0 +1,114 @@
+/**
+ * Verse iteration tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect } from 'vitest';
+import { iterateVerses, type IterateOptions, type IteratedVerse } from '../src/iterate.js';
+import { loadVerse } from '../src/source.js';
+import { setDataBackend, type DataBackend } from '../src/backend.js';
+import { createFsBackend } from '../src/fs-backend.js';
+
+async function collect(options: IterateOptions): Promise<IteratedVerse[]> {
+  const verses: IteratedVerse[] = [];
+  for await (const verse of iterateVerses(options)) {
+    verses.push(verse);
+  }
+  return verses;
+}
+
+async function refs(options: IterateOptions): Promise<string[]> {
+  return (await collect(options)).map(verse => verse.osisRef);
+}
+
+describe('iterateVerses', () => {
+  it('should yield a book in order with references and data', async () => {
+    const verses = await collect({ books: ['Jude'] });
+
+    expect(verses).toHaveLength(25);
+    expect(verses[0]).toMatchObject({ book: 'Jude', osisRef: 'Jude.1.1', chapter: 1, verse: 1 });
+    expect(verses[24].osisRef).toBe('Jude.1.25');
+    expect(verses[2].data).toEqual(await loadVerse('Jude', 1, 3));
+  });
+
+  it('should keep canonical order regardless of the order books are given', async () => {
+    const books = [...new Set((await collect({ books: ['3 John', 'Obadiah', '2John'] })).map(verse => verse.book))];
+    expect(books).toEqual(['Obadiah', '2 John', '3 John']);
+  });
+
+  it('should filter by testament', async () => {
+    const verses = await collect({ testament: 'NT', to: 'Matt 1:3' });
+    expect(verses.map(verse => verse.osisRef)).toEqual(['Matt.1.1', 'Matt.1.2', 'Matt.1.3']);
+
+    expect(await refs({ testament: 'OT', books: ['Jude'] })).toEqual([]);
+  });
+
+  it('should cover every verse of a testament', async () => {
+    let count = 0;
+    for await (const _verse of iterateVerses({ testament: 'NT' })) count++;
+    expect(count).toBe(7957);
+  });
+
+  it('should start and stop at references', async () => {
+    expect(await refs({ from: 'John 3:16', to: 'John 3:18' })).toEqual(['John.3.16', 'John.3.17', 'John.3.18']);
+    expect(await refs({ from: 'Mal 4:6', to: 'Matt 1:1' })).toEqual(['Mal.4.6', 'Matt.1.1']);
+    expect(await refs({ from: 'Jude 25', to: 'Rev.1.1' })).toEqual(['Jude.1.25', 'Rev.1.1']);
+  });
+
+  it('should treat book and chapter bounds as covering the whole book or chapter', async () => {
+    const psalm = await refs({ from: 'Ps 117', to: 'Ps 117' });
+    expect(psalm).toEqual(['Ps.117.1', 'Ps.117.2']);
+
+    const epistles = await collect({ from: '2 John', to: '3 John' });
+    expect(epistles[0].osisRef).toBe('2John.1.1');
+    expect(epistles[epistles.length - 1].osisRef).toBe('3John.1.14');
+  });
+
+  it('should accept positions as bounds', async () => {
+    expect(await refs({ from: { book: 'Genesis', chapter: 50, verse: 26 }, to: { book: 'Exod', chapter: 1, verse: 1 } }))
+      .toEqual(['Gen.50.26', 'Exod.1.1']);
+  });
+
+  it('should combine books with bounds', async () => {
+    expect(await refs({ books: ['Obad', 'Jude'], from: 'Obad 21', to: 'Jude 1' })).toEqual(['Obad.1.21', 'Jude.1.1']);
+  });
+
+  it('should stop loading when the loop exits early', async () => {
+    // Record the chapters read through a fresh backend (which also empties the verse cache)
+    const fs = createFsBackend();
+    const chapters = new Set<string>();
+    const counting: DataBackend = {
+      readText(path) {
+        const match = path.match(/crosswire-KJV\/(\w+)\/(\d+)\//);
+        if (match) chapters.add(`${match[1]}.${match[2]}`);
+        return fs.readText(path);
+      },
+      readRange: (path, offset, length) => fs.readRange(path, offset, length),
+    };
+
+    setDataBackend(counting);
+    try {
+      let count = 0;
+      for await (const verse of iterateVerses()) {
+        expect(verse.osisRef).toBe('Gen.1.1');
+        count++;
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(count).toBe(1);
+      expect([...chapters]).toEqual(['Gen.1']);
+    } finally {
+      setDataBackend(createFsBackend());
+    }
+  });
+
+  it('should decode morphology when asked', async () => {
+    const [verse] = await collect({ from: 'John 1:1', to: 'John 1:1', morphology: true });
+    expect(verse.data.words.some((word: { morphology?: unknown }) => word.morphology)).toBe(true);
+  });
+
+  it('should reject ranges that end before they start and unknown books', async () => {
+    await expect(refs({ from: 'John 3:17', to: 'John 3:16' })).rejects.toThrow('ends before it starts');
+    await expect(refs({ books: ['Hezekiah'] })).rejects.toThrow("Unknown book 'Hezekiah'");
+  });
+});
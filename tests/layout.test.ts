@@ -0,0 +1,60 @@
+/**
+ * Paragraph layout tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect } from 'vitest';
+import { groupParagraphs, loadParagraphs } from '../src/layout.js';
+import type { KjvVerseData } from '../src/source.js';
+
+function verse(wordCount: number, breaks?: KjvVerseData['breaks']): KjvVerseData {
+  const words = Array.from({ length: wordCount }, (_, i) => ({ position: i + 1, text: `w${i + 1}` }));
+  return { text: words.map(w => w.text).join(' '), words, ...(breaks && { breaks }) } as KjvVerseData;
+}
+
+describe('groupParagraphs', () => {
+  it('should start paragraphs at pilcrow breaks', () => {
+    const paragraphs = groupParagraphs([
+      verse(3, [{ type: 'paragraph', position: 1, marker: '¶' }]),
+      verse(4),
+      verse(2, [{ type: 'paragraph', position: 1, marker: '¶' }]),
+    ]);
+
+    expect(paragraphs.map(p => p.verses.map(v => v.verse))).toEqual([[1, 2], [3]]);
+    expect(paragraphs[0]).toMatchObject({ stanza: false, marker: '¶' });
+    expect(paragraphs[0].verses[1].range).toEqual([1, 4]);
+  });
+
+  it('should open the chapter with a paragraph even without a marker', () => {
+    const paragraphs = groupParagraphs([verse(2), verse(2)]);
+    expect(paragraphs).toHaveLength(1);
+    expect(paragraphs[0].marker).toBeUndefined();
+  });
+
+  it('should split a verse at a mid-verse break', () => {
+    const paragraphs = groupParagraphs([verse(6, [{ type: 'paragraph', position: 4 }])]);
+
+    expect(paragraphs.map(p => p.verses.map(v => v.range))).toEqual([[[1, 3]], [[4, 6]]]);
+  });
+
+  it('should group poetry into stanzas with line starts', () => {
+    const paragraphs = groupParagraphs([
+      verse(8, [
+        { type: 'stanza', position: 4 },
+        { type: 'line', position: 4, level: 1 },
+        { type: 'line', position: 7, level: 2 },
+      ]),
+    ]);
+
+    expect(paragraphs).toHaveLength(2);
+    expect(paragraphs[1].stanza).toBe(true);
+    expect(paragraphs[1].verses[0].lines).toEqual([{ position: 4, level: 1 }, { position: 7, level: 2 }]);
+  });
+});
+
+describe('loadParagraphs', () => {
+  it('should cover every verse of the chapter in order', async () => {
+    const paragraphs = await loadParagraphs('Genesis', 1);
+    const verses = paragraphs.flatMap(p => p.verses.map(v => v.verse));
+    expect(new Set(verses)).toEqual(new Set(Array.from({ length: 31 }, (_, i) => i + 1)));
+  });
+});
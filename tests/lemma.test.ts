@@ -0,0 +1,59 @@
+/**
+ * Lemma parsing tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseLemma, getWordLemmas } from '../src/lemma.js';
+import { loadVerse, type KjvWord } from '../src/source.js';
+
+async function readWords(book: string, chapter: number, verse: number): Promise<KjvWord[]> {
+  return (await loadVerse(book, chapter, verse)).words;
+}
+
+describe('parseLemma', () => {
+  it('should pair Strong\'s numbers with lemma forms in order', () => {
+    expect(parseLemma('strong:G3588 strong:G2316 lemma.TR:ο lemma.TR:θεος', 'NT')).toEqual([
+      { strongs: 'G3588', forms: { TR: 'ο' } },
+      { strongs: 'G2316', forms: { TR: 'θεος' } },
+    ]);
+  });
+
+  it('should keep numbers of every length and strip leading zeros', () => {
+    expect(parseLemma('strong:G26 lemma.TR:αγαπη', 'NT')).toEqual([{ strongs: 'G26', forms: { TR: 'αγαπη' } }]);
+    expect(parseLemma('strong:H01', 'OT')).toEqual([{ strongs: 'H1' }]);
+    expect(parseLemma('strong:H07462 strong:H01961', 'OT').map(l => l.strongs)).toEqual(['H7462', 'H1961']);
+  });
+
+  it('should prefix unprefixed numbers by testament', () => {
+    expect(parseLemma('strong:G1722 5129 lemma.TR:εν lemma.TR:τουτω', 'NT').map(l => l.strongs)).toEqual(['G1722', 'G5129']);
+    expect(parseLemma('strong:430', 'OT').map(l => l.strongs)).toEqual(['H430']);
+  });
+
+  it('should share a single form across a compound number', () => {
+    expect(parseLemma('strong:G3589 strong:G5064 lemma.TR:ογδοηκοντατεσσαρων', 'NT')).toEqual([
+      { strongs: 'G3589', forms: { TR: 'ογδοηκοντατεσσαρων' } },
+      { strongs: 'G5064', forms: { TR: 'ογδοηκοντατεσσαρων' } },
+    ]);
+  });
+
+  it('should return nothing for a missing attribute', () => {
+    expect(parseLemma(null, 'OT')).toEqual([]);
+    expect(parseLemma('', 'NT')).toEqual([]);
+  });
+});
+
+describe('getWordLemmas', () => {
+  it('should parse the raw lemma of stored words', async () => {
+    const words = await readWords('1John', 4, 8);
+    const love = words.find(word => word.text === 'love.')!;
+    expect(getWordLemmas(love, '1 John')).toEqual([{ strongs: 'G26', forms: { TR: 'αγαπη' } }]);
+
+    const [, , , , , his] = await readWords('Gen', 2, 24);
+    expect(getWordLemmas(his, 'Genesis')).toEqual([{ strongs: 'H1' }]);
+  });
+
+  it('should prefer parsed lemmas when present', () => {
+    const word = { lemma: 'strong:G26', lemmas: [{ strongs: 'G26', forms: { TR: 'αγαπη' } }] };
+    expect(getWordLemmas(word, 'John')).toBe(word.lemmas);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Morphology decoding tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decodeMorph, decodeMorphCode, describeMorph } from '../src/morph.js';
+import { loadVerse } from '../src/source.js';
+import { iterateVerses } from '../src/iterate.js';
+
+describe('decodeMorphCode', () => {
+  it('should decode Robinson verb codes', () => {
+    expect(decodeMorphCode('robinson:V-2AAI-3S').features).toEqual({
+      partOfSpeech: 'verb', secondForm: true, tense: 'aorist', voice: 'active', mood: 'indicative', person: 3, number: 'singular',
+    });
+    expect(decodeMorphCode('robinson:V-PNP-NPM').features).toMatchObject({
+      tense: 'present', voice: 'middle or passive deponent', mood: 'participle', case: 'nominative', number: 'plural', gender: 'masculine',
+    });
+    expect(decodeMorphCode('robinson:V-RAI-3S-ATT').features.qualifiers).toEqual(['Attic form']);
+  });
+
+  it('should decode Robinson nominal and uninflected codes', () => {
+    expect(decodeMorphCode('robinson:N-GSF').features).toEqual({ partOfSpeech: 'noun', case: 'genitive', number: 'singular', gender: 'feminine' });
+    expect(decodeMorphCode('robinson:P-1NS').features).toEqual({ partOfSpeech: 'personal pronoun', person: 1, case: 'nominative', number: 'singular' });
+    expect(decodeMorphCode('robinson:S-2SNSN').features).toMatchObject({ partOfSpeech: 'possessive pronoun', person: 2, possessorNumber: 'singular', gender: 'neuter' });
+    expect(decodeMorphCode('robinson:A-APN-C').features.degree).toBe('comparative');
+    expect(decodeMorphCode('robinson:N-PRI').features).toEqual({ partOfSpeech: 'noun', indeclinable: true, kind: 'proper name' });
+    expect(decodeMorphCode('robinson:PRT-N').features).toEqual({ partOfSpeech: 'particle', qualifiers: ['negative'] });
+  });
+
+  it('should decode Strong\'s Hebrew and Aramaic verb codes', () => {
+    expect(decodeMorphCode('strongMorph:TH8799')).toEqual({
+      scheme: 'strongMorph', code: 'TH8799', features: { partOfSpeech: 'verb', stem: 'Qal', mood: 'imperfect' }, description: 'verb, Qal imperfect',
+    });
+    expect(decodeMorphCode('strongMorph:TH8803').features).toMatchObject({ stem: 'Qal', mood: 'participle', voice: 'passive' });
+    expect(decodeMorphCode('strongMorph:TH8754').features).toMatchObject({ stem: 'Peal', mood: 'perfect' });
+    expect(decodeMorphCode('strongMorph:TH8675').features).toEqual({ variant: true });
+    expect(decodeMorphCode('strongMorph:TH8677').description).toBe('alternative reading');
+    expect(decodeMorphCode('strongMorph:TH8678').features).toEqual({ variant: true });
+  });
+
+  it('should decode every Strong\'s code in the corpus', async () => {
+    const codes = new Set<string>();
+    for await (const { data } of iterateVerses({ testament: 'OT' })) {
+      for (const word of data.words) {
+        for (const code of word.morph?.split(' ') ?? []) {
+          if (code.startsWith('strongMorph:')) codes.add(code);
+        }
+      }
+    }
+
+    expect(codes.size).toBeGreaterThan(100);
+    expect([...codes].filter(code => Object.keys(decodeMorphCode(code).features).length === 0)).toEqual([]);
+  }, 60_000);
+
+  it('should infer the scheme of unprefixed codes and keep unknown codes', () => {
+    expect(decodeMorphCode('N-NSM').scheme).toBe('robinson');
+    expect(decodeMorphCode('TH8804').features.stem).toBe('Qal');
+    expect(decodeMorphCode('robinson:Z-XYZ')).toEqual({ scheme: 'robinson', code: 'Z-XYZ', features: {}, description: 'Z-XYZ' });
+  });
+});
+
+describe('decodeMorph', () => {
+  it('should decode each code of a morph attribute', () => {
+    expect(decodeMorph('robinson:T-NSM robinson:N-NSM').map(entry => entry.features.partOfSpeech)).toEqual(['article', 'noun']);
+    expect(decodeMorph(null)).toEqual([]);
+  });
+
+  it('should describe codes in words', () => {
+    expect(describeMorph('robinson:V-2AAI-3S')).toBe('verb, second aorist active indicative, third person singular');
+    expect(describeMorph('strongMorph:TH8686')).toBe('verb, Hiphil imperfect');
+  });
+});
+
+describe('loadVerse morphology option', () => {
+  it('should include decoded morphology only when requested', async () => {
+    const plain = await loadVerse('John', 1, 1);
+    expect(plain.words[0].morphology).toBeUndefined();
+
+    const verse = await loadVerse('John', 1, 1, { morphology: true });
+    expect(verse.words[0].morphology).toEqual([decodeMorphCode('robinson:PREP')]);
+    expect(verse.words[0].morphology[0].features.partOfSpeech).toBe('preposition');
+  });
+});
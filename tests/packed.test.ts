@@ -0,0 +1,68 @@
+/**
+ * Packed storage format tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { packBook, readPackedVerse, readPackedChapter } from '../src/packed.js';
+import { loadVerse, loadChapter } from '../src/source.js';
+
+describe('packed layout', () => {
+  let packedPath: string;
+
+  beforeAll(async () => {
+    packedPath = await mkdtemp(join(tmpdir(), 'kjv-packed-'));
+
+    // John 1:1-3 and 3:16-17 exercise multi-byte (Greek lemma) content
+    const refs: Array<[number, number]> = [[3, 17], [1, 1], [1, 2], [1, 3], [3, 16]];
+    const verses = await Promise.all(
+      refs.map(async ([chapter, verse]) => ({ chapter, verse, data: await loadVerse('John', chapter, verse) }))
+    );
+
+    const { content, index } = packBook('John', verses);
+    await writeFile(join(packedPath, 'John.jsonl'), content, 'utf-8');
+    await writeFile(join(packedPath, 'John.index.json'), JSON.stringify(index), 'utf-8');
+  });
+
+  afterAll(async () => {
+    await rm(packedPath, { recursive: true, force: true });
+  });
+
+  it('should read a single verse identical to the loaded verse', async () => {
+    const verse = await readPackedVerse(packedPath, 'John', 3, 16);
+    expect(verse).toEqual(await loadVerse('John', 3, 16));
+  });
+
+  it('should read a chapter in verse order', async () => {
+    const chapter = await readPackedChapter(packedPath, 'John', 1);
+    expect(chapter).toEqual([
+      await loadVerse('John', 1, 1),
+      await loadVerse('John', 1, 2),
+      await loadVerse('John', 1, 3),
+    ]);
+  });
+
+  it('should return null for books that are not packed', async () => {
+    expect(await readPackedVerse(packedPath, 'Gen', 1, 1)).toBeNull();
+    expect(await readPackedChapter(packedPath, 'Gen', 1)).toBeNull();
+  });
+
+  it('should throw for references missing from a packed book', async () => {
+    await expect(readPackedVerse(packedPath, 'John', 3, 99)).rejects.toThrow();
+    await expect(readPackedChapter(packedPath, 'John', 2)).rejects.toThrow();
+  });
+});
+
+describe('legacy layout fallback', () => {
+  it('should load a verse from per-verse files', async () => {
+    const verse = await loadVerse('Genesis', 1, 1);
+    expect(verse.text).toBe('In the beginning God created the heaven and the earth.');
+  });
+
+  it('should load a chapter from per-verse files', async () => {
+    const chapter = await loadChapter('Genesis', 1);
+    expect(chapter).toHaveLength(31);
+  });
+});
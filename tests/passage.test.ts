@@ -0,0 +1,86 @@
+/**
+ * Passage reference tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePassage, loadPassage } from '../src/passage.js';
+
+describe('parsePassage', () => {
+  it('should parse multiple parts separated by semicolons', () => {
+    expect(parsePassage('John 3:16-18; Rom 8; Ps 119:105-112')).toEqual([
+      { book: 'John', startChapter: 3, startVerse: 16, endChapter: 3, endVerse: 18 },
+      { book: 'Romans', startChapter: 8, startVerse: undefined, endChapter: 8, endVerse: undefined },
+      { book: 'Psalms', startChapter: 119, startVerse: 105, endChapter: 119, endVerse: 112 },
+    ]);
+  });
+
+  it('should parse ranges that cross chapters', () => {
+    expect(parsePassage('Gen 1:26-2:3')).toEqual([
+      { book: 'Genesis', startChapter: 1, startVerse: 26, endChapter: 2, endVerse: 3 },
+    ]);
+  });
+
+  it('should continue the previous chapter after a comma', () => {
+    expect(parsePassage('1 John 4:8, 16')).toEqual([
+      { book: '1 John', startChapter: 4, startVerse: 8, endChapter: 4, endVerse: 8 },
+      { book: '1 John', startChapter: 4, startVerse: 16, endChapter: 4, endVerse: 16 },
+    ]);
+  });
+
+  it('should continue the previous book after a semicolon', () => {
+    expect(parsePassage('John 3:16; 4:24').map(r => [r.book, r.startChapter, r.startVerse])).toEqual([
+      ['John', 3, 16],
+      ['John', 4, 24],
+    ]);
+  });
+
+  it('should parse OSIS references', () => {
+    expect(parsePassage('John.3.16')).toEqual([
+      { book: 'John', startChapter: 3, startVerse: 16, endChapter: 3, endVerse: 16 },
+    ]);
+    expect(parsePassage('Gen.1.26-Gen.2.3')).toEqual([
+      { book: 'Genesis', startChapter: 1, startVerse: 26, endChapter: 2, endVerse: 3 },
+    ]);
+    expect(parsePassage('Rom.8')[0]).toMatchObject({ book: 'Romans', startChapter: 8, endChapter: 8 });
+  });
+
+  it('should treat a bare number in a single-chapter book as a verse', () => {
+    expect(parsePassage('Jude 3')).toEqual([
+      { book: 'Jude', startChapter: 1, startVerse: 3, endChapter: 1, endVerse: 3 },
+    ]);
+  });
+
+  it('should reject malformed and reversed references', () => {
+    expect(() => parsePassage('3:16')).toThrow('missing book');
+    expect(() => parsePassage('John 3:18-16')).toThrow('range ends before it starts');
+    expect(() => parsePassage('John 3:x')).toThrow('Invalid passage reference');
+    expect(() => parsePassage('Gen.1.1-Exod.1.1')).toThrow('across books');
+  });
+});
+
+describe('loadPassage', () => {
+  it('should load verses grouped by chapter in order', async () => {
+    const passage = await loadPassage('Gen 1:30-2:2');
+
+    expect(passage.map(group => [group.book, group.chapter])).toEqual([['Genesis', 1], ['Genesis', 2]]);
+    expect(passage[0].verses.map(v => v.verse)).toEqual([30, 31]);
+    expect(passage[1].verses.map(v => v.verse)).toEqual([1, 2]);
+    expect(passage[1].verses[0].data.text).toMatch(/^Thus the heavens and the earth were finished/);
+  });
+
+  it('should load whole chapters', async () => {
+    const [chapter] = await loadPassage('Ps 117');
+    expect(chapter.verses).toHaveLength(2);
+  });
+
+  it('should merge comma-separated verses of the same chapter', async () => {
+    const passage = await loadPassage('John 3:16, 18');
+    expect(passage).toHaveLength(1);
+    expect(passage[0].verses.map(v => v.verse)).toEqual([16, 18]);
+  });
+
+  it('should reject references outside the versification', async () => {
+    await expect(loadPassage('John 22:1')).rejects.toThrow('Chapter John 22 does not exist');
+    await expect(loadPassage('John 3:37')).rejects.toThrow('Verse John 3:37 does not exist');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Related verse tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { readFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { buildRelatedIndex, rankRelated, findRelatedVerses, type RelatedIndex } from '../src/related.js';
+import { buildStrongsIndex, type IndexableVerse, type StrongsIndex } from '../src/strongs.js';
+import { iterateVerses } from '../src/iterate.js';
+import { createMemoryBackend, setDataBackend } from '../src/backend.js';
+import { createFsBackend } from '../src/fs-backend.js';
+import { sourceInfo } from '../src/source.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const DATA_DIR = join(__dirname, '..', 'data', 'crosswire-KJV');
+
+async function buildConcordance(books: string[]): Promise<StrongsIndex> {
+  const verses: IndexableVerse[] = [];
+  for await (const { osisRef, chapter, verse, data } of iterateVerses({ books })) {
+    verses.push({ book: osisRef.slice(0, osisRef.indexOf('.')), chapter, verse, data });
+  }
+  return buildStrongsIndex(verses);
+}
+
+describe('rankRelated', () => {
+  let index: RelatedIndex;
+
+  beforeAll(async () => {
+    index = buildRelatedIndex(await buildConcordance(['Gen', 'John', '1John']));
+  });
+
+  it('should rank verses sharing rare lemmas first', () => {
+    const related = rankRelated(index, 'John.3.16');
+
+    expect(related).toHaveLength(10);
+    // "should not perish, but have eternal life"
+    expect(related[0]).toMatchObject({ book: 'John', osisRef: 'John.3.15', chapter: 3, verse: 15 });
+    expect(related[0].shared).toEqual(expect.arrayContaining(['G166', 'G622', 'G2222', 'G4100']));
+    expect(related.map(verse => verse.osisRef)).toContain('1John.5.13');
+    expect(related.map(verse => verse.osisRef)).not.toContain('John.3.16');
+  });
+
+  it('should score by cosine similarity, best first', () => {
+    const related = rankRelated(index, 'Gen.1.1', { limit: 50 });
+
+    expect(related.every(verse => verse.score > 0 && verse.score <= 1)).toBe(true);
+    expect(related.map(verse => verse.score)).toEqual([...related.map(verse => verse.score)].sort((a, b) => b - a));
+    expect(related[0].shared).toEqual(expect.arrayContaining(['H1254', 'H8064', 'H776']));
+  });
+
+  it('should list shared lemmas rarest first', () => {
+    for (const { shared } of rankRelated(index, 'John.3.16')) {
+      const weights = shared.map(number => index.idf.get(number)!);
+      expect(weights).toEqual([...weights].sort((a, b) => b - a));
+    }
+  });
+
+  it('should filter by books and testament and limit results', () => {
+    expect(rankRelated(index, 'John.3.16', { books: ['1 John'], limit: 3 }).map(verse => verse.book))
+      .toEqual(['1 John', '1 John', '1 John']);
+    expect(rankRelated(index, 'John.3.16', { testament: 'OT' })).toEqual([]);
+  });
+
+  it('should return nothing for verses without Strong\'s numbers', () => {
+    expect(rankRelated(index, 'Rom.1.1')).toEqual([]);
+  });
+});
+
+describe('findRelatedVerses', () => {
+  afterEach(() => {
+    setDataBackend(createFsBackend());
+  });
+
+  it('should load the concordance through the data backend', async () => {
+    const concordance = await buildConcordance(['John', '1John']);
+    setDataBackend(createMemoryBackend({
+      [sourceInfo.versificationFile]: await readFile(join(DATA_DIR, 'versification.json'), 'utf-8'),
+      'cache/strongs.json': JSON.stringify(concordance),
+    }));
+
+    const related = await findRelatedVerses('Jn', 3, 16, { limit: 3 });
+    expect(related).toEqual(rankRelated(buildRelatedIndex(concordance), 'John.3.16', { limit: 3 }));
+
+    await expect(findRelatedVerses('John', 3, 99)).rejects.toThrow('Verse John 3:99 not found in crosswire-KJV');
+  });
+
+  it('should build the concordance from the verse data when the cache is missing', async () => {
+    const related = await findRelatedVerses('John', 3, 16, { limit: 3 });
+
+    expect(related.map(verse => verse.osisRef)).toEqual(['John.3.15', '1John.5.13', 'John.6.27']);
+    expect(related[0].shared.slice(0, 4)).toEqual(['G166', 'G622', 'G2222', 'G4100']);
+  }, 60_000);
+});
@@ -0,0 +1,162 @@
+/**
+ * Rendering tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderVerse, renderChapter } from '../src/render.js';
+import { loadVerse, loadChapter, type KjvVerseData } from '../src/source.js';
+import { parseOsis, toVerseData } from '../scripts/import.js';
+
+const GEN_1_2 = { book: 'Genesis', chapter: 1, verse: 2 };
+
+describe('renderVerse', () => {
+  it('should render plain text matching the verse text', async () => {
+    const verse = await loadVerse('Genesis', 1, 2);
+    expect(renderVerse(verse, 'text')).toBe(verse.text);
+    expect(renderVerse(verse, 'text', { reference: GEN_1_2 })).toBe(`2 ${verse.text}`);
+  });
+
+  it('should mark, bracket or omit supplied words', async () => {
+    const verse = await loadVerse('Genesis', 1, 2);
+
+    expect(renderVerse(verse, 'html')).toContain('and darkness <i>was</i> upon');
+    expect(renderVerse(verse, 'markdown')).toContain('and darkness *was* upon');
+    expect(renderVerse(verse, 'usfm', { reference: GEN_1_2 })).toMatch(/^\\v 2 And .* darkness \\add was\\add\* upon/);
+    expect(renderVerse(verse, 'text', { supplied: 'bracket' })).toContain('darkness [was] upon');
+    expect(renderVerse(verse, 'text', { supplied: 'omit' })).toContain('darkness upon');
+    expect(renderVerse(verse, 'html', { supplied: 'plain' })).toContain('darkness was upon');
+  });
+
+  it('should keep supplied word runs together', async () => {
+    const verse = await loadVerse('Romans', 16, 27);
+    expect(renderVerse(verse, 'markdown')).toContain('Corinthus *and sent* by Phebe');
+  });
+
+  it('should include or exclude colophons', async () => {
+    const verse = await loadVerse('Romans', 16, 27);
+
+    expect(renderVerse(verse, 'text')).toMatch(/Amen\. Written to the Romans .* Cenchrea$/);
+    expect(renderVerse(verse, 'text', { colophons: false })).toBe(verse.text);
+
+    const osis = renderVerse(verse, 'osis', { reference: { book: 'Romans', chapter: 16, verse: 27 } });
+    expect(osis).toMatch(/<verse eID="Rom\.16\.27"\/><div type="colophon" osisID="Rom\.c">.*Cenchrea<\/w><\/div>$/);
+  });
+
+  it('should not space around parentheses and closing punctuation', async () => {
+    const verse = await loadVerse('Genesis', 14, 8);
+    expect(renderVerse(verse, 'text')).toContain('king of Bela (the same is Zoar;) and they');
+  });
+
+  it('should link words to Strong\'s numbers in HTML', async () => {
+    const verse = await loadVerse('John', 3, 16);
+    const html = renderVerse(verse, 'html', { strongsHref: strongs => `/strongs/${strongs.join('+')}` });
+    expect(html).toMatch(/^<a href="\/strongs\/G1063">For<\/a> <a href="\/strongs\/G3588\+G2316">God<\/a>/);
+  });
+
+  it('should style the divine name and words of Christ', () => {
+    const verse = {
+      text: 'Jesus said, The LORD is good.',
+      words: [
+        { position: 1, text: 'Jesus' },
+        { position: 2, text: 'said,' },
+        { position: 3, text: 'The', metadata: { words_of_christ: true, speaker: 'Jesus', quote_depth: 1 } },
+        { position: 4, text: 'LORD', metadata: { words_of_christ: true, speaker: 'Jesus', quote_depth: 1, divine_name: true } },
+        { position: 5, text: 'is', metadata: { words_of_christ: true, speaker: 'Jesus', quote_depth: 1, type: 'added' } },
+        { position: 6, text: 'good.', metadata: { words_of_christ: true, speaker: 'Jesus', quote_depth: 1 } },
+      ],
+    } as KjvVerseData;
+
+    expect(renderVerse(verse, 'html')).toBe(
+      'Jesus said, <span class="words-of-christ">The <span class="divine-name">LORD</span></span> ' +
+      '<span class="words-of-christ"><i>is</i></span> <span class="words-of-christ">good</span>.');
+    expect(renderVerse(verse, 'usfm')).toBe('Jesus said, \\wj The \\nd LORD\\nd*\\wj* \\wj \\add is\\add*\\wj* \\wj good\\wj*.');
+    expect(renderVerse(verse, 'osis')).toBe(
+      'Jesus said, <q who="Jesus" marker="">The <divineName>LORD</divineName> ' +
+      '<transChange type="added">is</transChange> good.</q>');
+  });
+
+  it('should keep punctuation outside markup and follow word spacing', () => {
+    const verse = {
+      text: 'the LORD (his name) is good.',
+      words: [
+        { position: 1, text: 'the' },
+        { position: 2, text: 'LORD', metadata: { divine_name: true } },
+        { position: 3, text: 'his', leading: '(' },
+        { position: 4, text: 'name', trailing: ')', metadata: { type: 'added' } },
+        { position: 5, text: 'is' },
+        { position: 6, text: 'good', trailing: '.', space: '  ' },
+      ],
+    } as KjvVerseData;
+
+    expect(renderVerse(verse, 'text')).toBe('the LORD (his name) is  good.');
+    expect(renderVerse(verse, 'html')).toBe('the <span class="divine-name">LORD</span> (his <i>name</i>) is  good.');
+    expect(renderVerse(verse, 'usfm')).toBe('the \\nd LORD\\nd* (his \\add name\\add*) is  good.');
+    expect(renderVerse(verse, 'osis')).toBe(
+      'the <divineName>LORD</divineName> (his <transChange type="added">name</transChange>) is  good.');
+    expect(renderVerse(verse, 'markdown')).toBe('the <span class="divine-name">LORD</span> (his *name*) is  good.');
+    expect(renderVerse(verse, 'text', { supplied: 'bracket' })).toBe('the LORD (his [name]) is  good.');
+  });
+
+  it('should keep punctuation of legacy words outside markup', () => {
+    const verse = {
+      text: 'the LORD, (his name) is good.',
+      words: [
+        { position: 1, text: 'the' },
+        { position: 2, text: 'LORD,', metadata: { divine_name: true } },
+        { position: 3, text: '(his' },
+        { position: 4, text: 'name)', metadata: { type: 'added' } },
+        { position: 5, text: 'is', metadata: { words_of_christ: true } },
+        { position: 6, text: 'good.', metadata: { words_of_christ: true } },
+      ],
+    } as KjvVerseData;
+
+    expect(renderVerse(verse, 'html')).toBe(
+      'the <span class="divine-name">LORD</span>, (his <i>name</i>) <span class="words-of-christ">is good</span>.');
+    expect(renderVerse(verse, 'usfm')).toBe('the \\nd LORD\\nd*, (his \\add name\\add*) \\wj is good\\wj*.');
+    expect(renderVerse(verse, 'markdown')).toBe('the <span class="divine-name">LORD</span>, (his *name*) is good.');
+  });
+
+  it('should render OSIS with the original word attributes', async () => {
+    const verse = await loadVerse('Genesis', 1, 2);
+    const osis = renderVerse(verse, 'osis', { reference: GEN_1_2 });
+
+    expect(osis.startsWith('<verse osisID="Gen.1.2" sID="Gen.1.2"/><w lemma="strong:H0776">And the earth</w>')).toBe(true);
+    expect(osis).toContain('<w morph="strongMorph:TH8804" lemma="strong:H01961">was</w>');
+    expect(osis).toContain('<transChange type="added">was</transChange>');
+    expect(osis.endsWith('<verse eID="Gen.1.2"/>')).toBe(true);
+  });
+});
+
+describe('renderChapter', () => {
+  it('should number verses in each format', async () => {
+    const verses = await loadChapter('Psalms', 117);
+    const chapter = { book: 'Psalms', chapter: 117 };
+
+    expect(renderChapter(verses, 'text', chapter).split('\n')).toEqual([`1 ${verses[0].text}`, `2 ${verses[1].text}`]);
+    expect(renderChapter(verses, 'usfm', chapter)).toMatch(/^\\c 117\n\\p\n\\v 1 O praise the Lord,.*\n\\v 2 /);
+    expect(renderChapter(verses, 'html', chapter)).toMatch(/^<p><sup class="verse-number">1<\/sup>O praise .*<\/p>$/);
+    expect(renderChapter(verses, 'osis', chapter)).toMatch(/^<chapter osisID="Ps\.117"><verse osisID="Ps\.117\.1" sID="Ps\.117\.1"\/>/);
+  });
+});
+
+describe('OSIS round trip', () => {
+  function importOsis(book: string, content: string): KjvVerseData[] {
+    const xml = `<osis><osisText><div type="book" osisID="${book}">${content}</div></osisText></osis>`;
+    return parseOsis(xml).verses.map(toVerseData) as unknown as KjvVerseData[];
+  }
+
+  it('should read rendered OSIS back into the same verses', () => {
+    const verses = importOsis('John', '<chapter osisID="John.3">' +
+      '<verse osisID="John.3.1"><milestone type="x-p" marker="¶"/><w lemma="strong:G2258">There was</w> a man' +
+      '<note type="study" n="a"><catchWord>man</catchWord>Or, ruler</note>, <q who="Nicodemus" marker="">Rabbi, ' +
+      '<q who="Jesus" marker="">Verily, <q who="Moses" marker="">the <divineName>LORD</divineName></q> ' +
+      '<transChange type="added">is</transChange> here</q>;</q> said he.</verse>' +
+      '<verse osisID="John.3.2"><lg><l level="1"><w lemma="strong:G3588 strong:G2316">The God</w> of heaven,</l>' +
+      '<l level="2">the earth.</l></lg></verse></chapter>');
+    const xml = renderChapter(verses, 'osis', { book: 'John', chapter: 3 });
+
+    expect(importOsis('John', xml)).toEqual(verses);
+    expect(verses[0].words.find(word => word.text === 'LORD')?.metadata)
+      .toEqual({ quote_depth: 3, speaker: 'Moses', words_of_christ: true, divine_name: true });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Full-text search tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { buildSearchIndex, search, searchIndex, normalizeTerm, type SearchIndex, type SearchableVerse } from '../src/search.js';
+import { loadVerse } from '../src/source.js';
+
+async function readVerse(book: string, chapter: number, verse: number): Promise<SearchableVerse> {
+  return { book, chapter, verse, data: await loadVerse(book, chapter, verse) };
+}
+
+describe('normalizeTerm', () => {
+  it('should lowercase and strip punctuation', () => {
+    expect(normalizeTerm('Moses,')).toBe('moses');
+    expect(normalizeTerm('LORD’s')).toBe('lords');
+    expect(normalizeTerm('Beer–sheba')).toBe('beersheba');
+  });
+});
+
+describe('searchIndex', () => {
+  let index: SearchIndex;
+
+  beforeAll(async () => {
+    const refs: Array<[string, number, number]> = [
+      ['Gen', 1, 3], ['Gen', 1, 4], ['Exod', 3, 12],
+      ['1Kgs', 19, 11], ['1Kgs', 19, 12], ['1Kgs', 19, 13],
+      ['John', 3, 16], ['1Cor', 13, 4], ['1John', 4, 8],
+    ];
+    index = buildSearchIndex(await Promise.all(refs.map(([book, chapter, verse]) => readVerse(book, chapter, verse))));
+  });
+
+  it('should match exact phrases with word positions', () => {
+    const results = searchIndex(index, '"still small voice"');
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ book: '1 Kings', osisRef: '1Kgs.19.12', chapter: 19, verse: 12 });
+    expect(results[0].positions).toEqual([20, 21, 22]);
+  });
+
+  it('should require every term by default', () => {
+    const results = searchIndex(index, 'voice still');
+    expect(results.map(r => r.osisRef)).toEqual(['1Kgs.19.12']);
+  });
+
+  it('should combine clauses with OR', () => {
+    const results = searchIndex(index, 'charity OR "still small"');
+    expect(results.map(r => r.osisRef).sort()).toEqual(['1Cor.13.4', '1Kgs.19.12']);
+  });
+
+  it('should expand prefix and wildcard terms', () => {
+    const prefix = searchIndex(index, 'lov*').map(r => r.osisRef);
+    expect(prefix).toEqual(expect.arrayContaining(['John.3.16', '1John.4.8']));
+
+    const wildcard = searchIndex(index, 'l?ght').map(r => r.osisRef);
+    expect(wildcard).toEqual(expect.arrayContaining(['Gen.1.3', 'Gen.1.4']));
+  });
+
+  it('should map phrases through multi-word entries to word positions', () => {
+    // Exod 3:12 has the supplied words "shall be" as a single entry
+    const [result] = searchIndex(index, '"certainly i will be with thee"', { books: ['Exodus'] });
+    expect(result.osisRef).toBe('Exod.3.12');
+    expect(result.positions.length).toBeGreaterThan(0);
+  });
+
+  it('should filter by books and testament', () => {
+    expect(searchIndex(index, 'god', { books: ['John'] }).map(r => r.osisRef)).toEqual(['John.3.16']);
+    expect(searchIndex(index, 'god', { testament: 'NT' }).every(r => ['John', '1 John'].includes(r.book))).toBe(true);
+    expect(searchIndex(index, 'god', { testament: 'OT' }).every(r => ['Genesis', 'Exodus', '1 Kings'].includes(r.book))).toBe(true);
+  });
+
+  it('should rank rarer terms higher and apply the limit', () => {
+    const results = searchIndex(index, 'god OR wind', { limit: 2 });
+    expect(results).toHaveLength(2);
+    expect(results[0].score).toBeGreaterThanOrEqual(results[1].score);
+    expect(results[0].osisRef).toBe('1Kgs.19.11');
+  });
+
+  it('should return no results for unknown terms', () => {
+    expect(searchIndex(index, 'xyzzy')).toEqual([]);
+  });
+});
+
+describe('search', () => {
+  it('should build the index from the verse data when the cache is missing', async () => {
+    expect(await search('"still small voice"')).toEqual([
+      { book: '1 Kings', osisRef: '1Kgs.19.12', chapter: 19, verse: 12, score: expect.any(Number), positions: [20, 21, 22] },
+    ]);
+    expect(await search('charity')).toHaveLength(24);
+  }, 60_000);
+});
@@ -6,31 +6,42 @@ import { describe, it, expect } from 'vitest';
 import { readFile } from 'fs/promises';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { sourceInfo, loadVerse } from '../src/source.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+describe('sourceInfo', () => {
+  it('should give absolute paths of the installed data and backend-relative locations', async () => {
+    expect(sourceInfo.dataPath).toBe(join(__dirname, '..', 'data', 'crosswire-KJV'));
+    expect(sourceInfo.versificationPath).toBe(join(__dirname, '..', 'data', 'crosswire-KJV', 'versification.json'));
+    expect(sourceInfo.cachePath).toBe(join(__dirname, '..', 'cache'));
+    expect(JSON.parse(await readFile(sourceInfo.versificationPath, 'utf-8')).Gen).toHaveLength(50);
+
+    expect(sourceInfo.dataDir).toBe('data/crosswire-KJV');
+    expect(sourceInfo.packedDir).toBe('data/crosswire-KJV/packed');
+    expect(sourceInfo.versificationFile).toBe('data/crosswire-KJV/versification.json');
+    expect(sourceInfo.cacheDir).toBe('cache');
+  });
+});
+
 describe('colophon handling', () => {
   it('should include colophon words in Romans 16:27', async () => {
     // Romans has a colophon: "Written to the Romans from Corinthus..."
-    const dataPath = join(__dirname, '..', 'data', 'crosswire-KJV', 'Rom', '16', '27.json');
-    const data = JSON.parse(await readFile(dataPath, 'utf-8'));
+    const data = await loadVerse('Rom', 16, 27);
 
     // Check that verse has colophon metadata
     expect(data.metadata).toBeDefined();
-    expect(data.metadata.has_colophon).toBe(true);
-    expect(data.metadata.colophon_type).toBe('subscription');
-    expect(data.metadata.colophon_word_range).toBeDefined();
+    expect(data.metadata?.has_colophon).toBe(true);
+    expect(data.metadata?.colophon_type).toBe('subscription');
+    expect(data.metadata?.colophon_word_range).toBeDefined();
   });
 
   it('should flag colophon words with metadata.colophon = true', async () => {
-    const dataPath = join(__dirname, '..', 'data', 'crosswire-KJV', 'Rom', '16', '27.json');
-    const data = JSON.parse(await readFile(dataPath, 'utf-8'));
+    const data = await loadVerse('Rom', 16, 27);
 
     // Find words flagged as colophon
-    const colophonWords = data.words.filter(
-      (word: { metadata?: { colophon?: boolean } }) => word.metadata?.colophon === true
-    );
+    const colophonWords = data.words.filter(word => word.metadata?.colophon === true);
 
     // Should have colophon words (Romans colophon has ~12 words)
     expect(colophonWords.length).toBeGreaterThan(0);
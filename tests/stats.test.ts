@@ -0,0 +1,133 @@
+/**
+ * Word statistics tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import {
+  buildWordStats,
+  loadWordStats,
+  getWordFrequency,
+  getStrongsFrequency,
+  getTopWords,
+  getHapaxLegomena,
+  getVocabularyStats,
+  type CountableVerse,
+  type WordStats,
+} from '../src/stats.js';
+import { iterateVerses } from '../src/iterate.js';
+import { createMemoryBackend, setDataBackend } from '../src/backend.js';
+import { createFsBackend } from '../src/fs-backend.js';
+
+describe('word statistics', () => {
+  let stats: WordStats;
+
+  beforeAll(async () => {
+    const verses: CountableVerse[] = [];
+    for await (const { osisRef, chapter, verse, data } of iterateVerses({ books: ['Obad', '1Cor', 'Jude'] })) {
+      verses.push({ book: osisRef.slice(0, osisRef.indexOf('.')), chapter, verse, data });
+    }
+    stats = buildWordStats(verses);
+  });
+
+  it('should count word forms by testament, book and chapter', () => {
+    const charity = getWordFrequency(stats, 'Charity,');
+
+    expect(charity).toMatchObject({ term: 'charity', count: 13, testaments: { OT: 0, NT: 13 } });
+    expect(charity.books).toEqual([
+      {
+        book: '1 Corinthians',
+        count: 12,
+        chapters: [
+          { chapter: 8, count: 1 },
+          { chapter: 13, count: 9 },
+          { chapter: 14, count: 1 },
+          { chapter: 16, count: 1 },
+        ],
+      },
+      { book: 'Jude', count: 1, chapters: [{ chapter: 1, count: 1 }] },
+    ]);
+  });
+
+  it('should limit counts to books or a testament', () => {
+    expect(getWordFrequency(stats, 'charity', { books: ['Jude'] }).count).toBe(1);
+    expect(getWordFrequency(stats, 'charity', { testament: 'OT' })).toEqual({
+      term: 'charity',
+      count: 0,
+      testaments: { OT: 0, NT: 0 },
+      books: [],
+    });
+  });
+
+  it('should count Strong\'s numbers once per word group', () => {
+    // Obad 1:12 renders H3117 as "on the day" and "in the day" (x3), one group each
+    const day = getStrongsFrequency(stats, 'h03117');
+    expect(day.term).toBe('H3117');
+    expect(day.count).toBe(13);
+    expect(day.books.map(book => book.book)).toEqual(['Obadiah']);
+  });
+
+  it('should list the most frequent terms', () => {
+    expect(getTopWords(stats, { limit: 3 })).toEqual([
+      { term: 'the', count: 659 },
+      { term: 'of', count: 391 },
+      { term: 'and', count: 343 },
+    ]);
+    expect(getTopWords(stats, { by: 'strongs', books: ['Obad'], limit: 1 })).toEqual([{ term: 'H3117', count: 13 }]);
+  });
+
+  it('should list hapax legomena within the selected books', () => {
+    const hapax = getHapaxLegomena(stats, { books: ['Jude'] });
+
+    expect(hapax).toContain('jude');
+    expect(hapax).toContain('charity');
+    expect(hapax).not.toContain('ungodly');
+    expect([...hapax].sort()).toEqual(hapax);
+    for (const term of hapax.slice(0, 20)) {
+      expect(getWordFrequency(stats, term, { books: ['Jude'] }).count).toBe(1);
+    }
+
+    const strongs = getHapaxLegomena(stats, { by: 'strongs', testament: 'OT' });
+    expect(strongs.every(term => term.startsWith('H'))).toBe(true);
+  });
+
+  it('should count words and vocabulary per book', () => {
+    const vocabulary = getVocabularyStats(stats);
+
+    expect(vocabulary.books.map(book => book.book)).toEqual(['Obadiah', '1 Corinthians', 'Jude']);
+    expect(vocabulary.words).toBe(vocabulary.books.reduce((total, book) => total + book.words, 0));
+    expect(vocabulary.forms).toBeLessThan(vocabulary.books.reduce((total, book) => total + book.forms, 0));
+    expect(vocabulary.books[0]).toEqual({ book: 'Obadiah', words: 669, forms: 246, strongs: expect.any(Number) });
+
+    expect(getVocabularyStats(stats, { testament: 'OT' })).toEqual({
+      words: 669,
+      forms: 246,
+      strongs: vocabulary.books[0].strongs,
+      books: [vocabulary.books[0]],
+    });
+  });
+});
+
+describe('loadWordStats', () => {
+  afterEach(() => {
+    setDataBackend(createFsBackend());
+  });
+
+  it('should load the statistics cache through the data backend', async () => {
+    const stats = buildWordStats([
+      { book: 'John', chapter: 11, verse: 35, data: { words: [{ position: 1, text: 'Jesus', strongs: ['G2424'] }, { position: 2, text: 'wept.', strongs: ['G1145'] }] } },
+    ]);
+    setDataBackend(createMemoryBackend({ 'cache/word-stats.json': JSON.stringify(stats) }));
+
+    const loaded = await loadWordStats();
+    expect(loaded).toEqual(stats);
+    expect(getWordFrequency(loaded, 'Wept').count).toBe(1);
+    expect(loaded.words.John).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2]);
+  });
+
+  it('should build the statistics from the verse data when the cache is missing', async () => {
+    const stats = await loadWordStats();
+
+    expect(getWordFrequency(stats, 'charity').count).toBe(28);
+    expect(getVocabularyStats(stats, { books: ['Gen'] })).toMatchObject({ words: 38262, forms: 2492, strongs: 1778 });
+  }, 60_000);
+});
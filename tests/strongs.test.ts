@@ -0,0 +1,75 @@
+/**
+ * Strong's concordance tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildStrongsIndex, findByStrongs, normalizeStrongs, compareStrongs, type IndexableVerse } from '../src/strongs.js';
+import { loadVerse } from '../src/source.js';
+
+async function readVerse(book: string, chapter: number, verse: number): Promise<IndexableVerse> {
+  return { book, chapter, verse, data: await loadVerse(book, chapter, verse) };
+}
+
+describe('normalizeStrongs', () => {
+  it('should strip leading zeros and uppercase the prefix', () => {
+    expect(normalizeStrongs('g0026')).toBe('G26');
+    expect(normalizeStrongs(' H07225 ')).toBe('H7225');
+    expect(normalizeStrongs('G2316')).toBe('G2316');
+  });
+
+  it('should reject values without a testament prefix', () => {
+    expect(() => normalizeStrongs('2316')).toThrow("Invalid Strong's number");
+    expect(() => normalizeStrongs('love')).toThrow("Invalid Strong's number");
+  });
+});
+
+describe('compareStrongs', () => {
+  it('should order Hebrew before Greek, then numerically', () => {
+    expect(['G26', 'H430', 'G3', 'H7225', 'H8'].sort(compareStrongs)).toEqual(['H8', 'H430', 'H7225', 'G3', 'G26']);
+  });
+});
+
+describe('buildStrongsIndex', () => {
+  it('should map Strong\'s numbers to verses and word positions', async () => {
+    const verses = [await readVerse('Gen', 1, 1), await readVerse('John', 3, 16)];
+    const index = buildStrongsIndex(verses);
+
+    // "In the beginning" carries H7225
+    expect(index.H7225['Gen.1.1']).toEqual([1, 2, 3]);
+    // "God" in John 3:16 carries both the article and theos
+    expect(index.G2316['John.3.16']).toEqual([2]);
+    expect(index.G3588['John.3.16']).toContain(2);
+  });
+
+  it('should keep verse references in input order', async () => {
+    const verses = [await readVerse('Gen', 1, 1), await readVerse('Gen', 1, 2), await readVerse('Gen', 1, 27)];
+    const index = buildStrongsIndex(verses);
+
+    expect(Object.keys(index.H430)).toEqual(['Gen.1.1', 'Gen.1.2', 'Gen.1.27']);
+  });
+
+  it('should order Strong\'s numbers by testament and number', async () => {
+    const index = buildStrongsIndex([await readVerse('John', 1, 1)]);
+    const keys = Object.keys(index);
+    const numbers = keys.map(key => parseInt(key.slice(1), 10));
+
+    expect(keys.every(key => key.startsWith('G'))).toBe(true);
+    expect(numbers).toEqual([...numbers].sort((a, b) => a - b));
+
+    const mixed = Object.keys(buildStrongsIndex([await readVerse('John', 1, 1), await readVerse('Gen', 1, 1)]));
+    expect(mixed[0]).toBe('H430');
+    expect(mixed.findIndex(key => key.startsWith('G'))).toBe(mixed.filter(key => key.startsWith('H')).length);
+  });
+});
+
+describe('findByStrongs', () => {
+  it('should build the concordance from the verse data when the cache is missing', async () => {
+    const created = await findByStrongs('h01254');
+
+    expect(created).toHaveLength(46);
+    expect(created[0]).toEqual({ book: 'Genesis', osisRef: 'Gen.1.1', chapter: 1, verse: 1, positions: [5] });
+    expect(await findByStrongs('G5541')).toEqual([
+      { book: '1 Corinthians', osisRef: '1Cor.13.4', chapter: 13, verse: 4, positions: [5, 6] },
+    ]);
+  }, 60_000);
+});
@@ -0,0 +1,44 @@
+/**
+ * Punctuation and spacing tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect } from 'vitest';
+import { splitPunctuation, getWordForm, joinWords } from '../src/tokens.js';
+import { loadVerse } from '../src/source.js';
+
+describe('splitPunctuation', () => {
+  it('should split leading and trailing punctuation from the word', () => {
+    expect(splitPunctuation('Moses,')).toEqual({ leading: '', text: 'Moses', trailing: ',' });
+    expect(splitPunctuation('(the')).toEqual({ leading: '(', text: 'the', trailing: '' });
+    expect(splitPunctuation('“house.”')).toEqual({ leading: '“', text: 'house', trailing: '.”' });
+  });
+
+  it('should keep punctuation inside the word', () => {
+    expect(splitPunctuation("Lord's")).toEqual({ leading: '', text: "Lord's", trailing: '' });
+    expect(splitPunctuation('Beth-el:')).toEqual({ leading: '', text: 'Beth-el', trailing: ':' });
+  });
+
+  it('should return punctuation-only tokens as leading', () => {
+    expect(splitPunctuation(';)')).toEqual({ leading: ';)', text: '', trailing: '' });
+  });
+});
+
+describe('joinWords', () => {
+  it('should reproduce text from words with punctuation and spacing fields', () => {
+    const words = [
+      { text: 'Bela' },
+      { text: 'the', leading: '(' },
+      { text: 'same' },
+      { text: 'Zoar', trailing: ';)' },
+      { text: 'house', leading: '“', trailing: '.”', space: '' },
+    ];
+    expect(getWordForm(words[3])).toBe('Zoar;)');
+    expect(joinWords(words)).toBe('Bela (the same Zoar;)“house.”');
+  });
+
+  it('should join older data with punctuation in the word text', async () => {
+    const verse = await loadVerse('Genesis', 14, 8);
+    expect(joinWords(verse.words)).toContain('king of Bela (the same is Zoar;) and they');
+    expect(joinWords((await loadVerse('John', 3, 16)).words)).toBe((await loadVerse('John', 3, 16)).text);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Data integrity tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateVerse, validateCorpus } from '../src/validate.js';
+import { loadVerse, type KjvVerseData } from '../src/source.js';
+
+function verse(texts: string[], extra: Partial<KjvVerseData> = {}): KjvVerseData {
+  return {
+    text: texts.join(' '),
+    words: texts.map((text, i) => ({ position: i + 1, text })),
+    ...extra,
+  } as KjvVerseData;
+}
+
+describe('validateVerse', () => {
+  it('should accept real verses', async () => {
+    expect(validateVerse('Gen', 14, 8, await loadVerse('Gen', 14, 8))).toEqual([]);
+    expect(validateVerse('Rom', 16, 27, await loadVerse('Rom', 16, 27))).toEqual([]);
+  });
+
+  it('should ignore spaces inside brackets', async () => {
+    // "[ but ] he that acknowledgeth the Son"
+    expect(validateVerse('1John', 2, 23, await loadVerse('1John', 2, 23))).toEqual([]);
+  });
+
+  it('should compare spacing exactly when words record it', () => {
+    const data = {
+      text: 'the LORD ( his name) is good.',
+      words: [
+        { position: 1, text: 'the' },
+        { position: 2, text: 'LORD' },
+        { position: 3, text: 'his', leading: '(' },
+        { position: 4, text: 'name', trailing: ')' },
+        { position: 5, text: 'is' },
+        { position: 6, text: 'good', trailing: '.' },
+      ],
+    } as KjvVerseData;
+    const [issue] = validateVerse('Ps', 1, 1, data);
+
+    expect(issue.check).toBe('text');
+    expect(issue.message).toContain('at character 11: " his name) is good." vs "his name) is good."');
+    expect(validateVerse('Ps', 1, 1, { ...data, text: 'the LORD (his name) is good.' })).toEqual([]);
+  });
+
+  it('should report positions that are not contiguous from 1', () => {
+    const data = verse(['In', 'the', 'beginning']);
+    data.words[2].position = 4;
+
+    expect(validateVerse('Genesis', 1, 1, data)).toEqual([
+      { osisRef: 'Gen.1.1', check: 'positions', message: 'word 3 has position 4, expected 3', position: 3 },
+    ]);
+  });
+
+  it('should report text that does not match the words', () => {
+    const data = { ...verse(['In', 'the', 'beginning']), text: 'In the begining' } as KjvVerseData;
+    const [issue] = validateVerse('Gen', 1, 1, data);
+
+    expect(issue.check).toBe('text');
+    expect(issue.message).toContain('at character 13: "ing" vs "ning"');
+  });
+
+  it('should report malformed Strong\'s numbers and numbers from the wrong testament', () => {
+    const data = verse(['In', 'the', 'beginning']);
+    data.words[0].strongs = ['H07225'];
+    data.words[2].strongs = ['G746'];
+
+    expect(validateVerse('Gen', 1, 1, data).map(issue => [issue.position, issue.message])).toEqual([
+      [1, "malformed Strong's number 'H07225'"],
+      [3, "Strong's number 'G746' is not from the Old Testament"],
+    ]);
+  });
+
+  it('should report colophon words that disagree with colophon_word_range', () => {
+    const data = verse(['Amen.', 'Written', 'to', 'the', 'Romans'], {
+      text: 'Amen.',
+      metadata: { has_colophon: true, colophon_word_range: [2, 5] },
+    });
+    for (const word of data.words.slice(2)) word.metadata = { colophon: true };
+
+    expect(validateVerse('Rom', 16, 27, data)).toEqual([
+      { osisRef: 'Rom.16.27', check: 'text', message: expect.stringContaining('text differs') },
+      { osisRef: 'Rom.16.27', check: 'colophon', message: 'colophon words at 3-5 (3) do not match colophon_word_range 2-5' },
+    ]);
+  });
+});
+
+describe('validateCorpus', () => {
+  it('should find no problems in the shipped data', async () => {
+    const report = await validateCorpus({ books: ['Romans', 'Jude', 'Obadiah'] });
+
+    expect(report.verses).toBe(433 + 25 + 21);
+    expect(report.issues).toEqual([]);
+  });
+});
@@ -8,13 +8,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { readdir } from 'fs/promises';
-import { join, dirname } from 'path';
-import { fileURLToPath } from 'url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-const DATA_DIR = join(__dirname, '..', 'data', 'crosswire-KJV');
+import { listChapters, getVerseCount, loadVersification, loadChapter, loadVerse } from '../src/source.js';
 
 /**
  * Expected KJV verse counts per book.
@@ -115,21 +109,24 @@ const NT_BOOKS = [
   'Jude', 'Rev',
 ];
 
+const bookCounts = new Map<string, Promise<number>>();
+
 /**
- * Count verses in a book by traversing the chapter directories.
+ * Count verses in a book by loading each of its chapters through the data backend.
  */
-async function countVersesInBook(bookDir: string): Promise<number> {
-  const bookPath = join(DATA_DIR, bookDir);
-  const chapters = await readdir(bookPath);
-
-  let totalVerses = 0;
-  for (const chapter of chapters) {
-    const chapterPath = join(bookPath, chapter);
-    const files = await readdir(chapterPath);
-    const jsonFiles = files.filter(f => f.endsWith('.json'));
-    totalVerses += jsonFiles.length;
+function countVersesInBook(book: string): Promise<number> {
+  let count = bookCounts.get(book);
+  if (!count) {
+    count = (async () => {
+      let totalVerses = 0;
+      for (const chapter of await listChapters(book)) {
+        totalVerses += (await loadChapter(book, chapter)).length;
+      }
+      return totalVerses;
+    })();
+    bookCounts.set(book, count);
   }
-  return totalVerses;
+  return count;
 }
 
 describe('KJV Versification', () => {
@@ -185,12 +182,11 @@ describe('KJV Versification', () => {
       expect(OT_BOOKS.length + NT_BOOKS.length).toBe(66);
     });
 
-    it('all expected books should exist in data directory', async () => {
+    it('all expected books should exist in the data', async () => {
       const allBooks = [...OT_BOOKS, ...NT_BOOKS];
-      const existingDirs = await readdir(DATA_DIR);
 
       for (const book of allBooks) {
-        expect(existingDirs).toContain(book);
+        await expect(loadVerse(book, 1, 1)).resolves.toBeDefined();
       }
     });
   });
@@ -267,10 +263,50 @@ describe('KJV Versification', () => {
 
     for (const book of [...OT_BOOKS, ...NT_BOOKS]) {
       it(`${book} should have ${EXPECTED_CHAPTERS[book]} chapter(s)`, async () => {
-        const bookPath = join(DATA_DIR, book);
-        const chapters = await readdir(bookPath);
+        const chapters = await listChapters(book);
         expect(chapters.length).toBe(EXPECTED_CHAPTERS[book]);
+        await expect(loadChapter(book, chapters.length)).resolves.not.toHaveLength(0);
       });
     }
   });
 });
+
+describe('Versification API', () => {
+  it('should cover all 66 books with 31,102 verses', async () => {
+    const versification = await loadVersification();
+    const books = Object.keys(versification);
+
+    expect(books).toEqual([...OT_BOOKS, ...NT_BOOKS]);
+
+    const total = books.reduce((sum, book) => sum + versification[book].reduce((a, b) => a + b, 0), 0);
+    expect(total).toBe(KJV_TOTAL);
+  });
+
+  for (const book of [...OT_BOOKS, ...NT_BOOKS]) {
+    it(`${book} verse counts should match the data`, async () => {
+      const chapters = await listChapters(book);
+      let total = 0;
+      for (const chapter of chapters) {
+        total += await getVerseCount(book, chapter);
+      }
+      expect(total).toBe(KJV_EXPECTED_COUNTS[book]);
+      expect(total).toBe(await countVersesInBook(book));
+    });
+  }
+
+  it('should accept book names as well as OSIS IDs', async () => {
+    expect(await listChapters('Psalms')).toHaveLength(150);
+    expect(await getVerseCount('Psalms', 119)).toBe(176);
+    expect(await getVerseCount('Ps', 117)).toBe(2);
+  });
+
+  it('should throw for unknown books and chapters', async () => {
+    await expect(listChapters('Tobit')).rejects.toThrow("Unknown book 'Tobit'");
+    await expect(getVerseCount('John', 22)).rejects.toThrow('Chapter John 22 not found');
+  });
+
+  it('should load a chapter with the counted number of verses', async () => {
+    const verses = await loadChapter('Ps', 119);
+    expect(verses).toHaveLength(176);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Word-level helper tests for @metaxia/scriptures-source-crosswire-kjv
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getQuoteContext, isWordsOfChrist, getWordsOfChrist, getWordsBySpeaker, isDivineName, getDivineNames, getWordGroups, getWordGroup,
+} from '../src/words.js';
+import { loadVerse } from '../src/source.js';
+import { parseOsis, toVerseData } from '../scripts/import.js';
+
+/**
+ * Import one verse from OSIS markup, as the importer would write it.
+ */
+function importVerse(osisID: string, content: string) {
+  const book = osisID.slice(0, osisID.indexOf('.'));
+  const chapter = osisID.slice(0, osisID.lastIndexOf('.'));
+  const { verses } = parseOsis(`<osis xmlns="http://www.bibletechnologies.net/2003/OSIS/namespace"><osisText>` +
+    `<div type="book" osisID="${book}"><chapter osisID="${chapter}"><verse osisID="${osisID}">${content}</verse></chapter></div></osisText></osis>`);
+  return toVerseData(verses[0]);
+}
+
+// John 10:34, quoting Ps 82:6 inside the words of Christ
+const verse = importVerse('John.10.34', '<w lemma="strong:G2424">Jesus</w> <w lemma="strong:G611">answered</w> <w lemma="strong:G846">them</w>, ' +
+  '<q who="Jesus" marker="">Is it not written in your law, <q who="God" marker="">I said, Ye are gods?</q></q>');
+
+describe('quotation helpers', () => {
+  it('should report quotation context for quoted words only', () => {
+    expect(getQuoteContext(verse.words[2])).toBeNull();
+    expect(getQuoteContext(verse.words[3])).toEqual({ quote_depth: 1, speaker: 'Jesus', words_of_christ: true });
+    expect(getQuoteContext(verse.words[10])).toEqual({ quote_depth: 2, speaker: 'God', words_of_christ: true });
+  });
+
+  it('should select words of Christ, including nested quotations', () => {
+    expect(isWordsOfChrist(verse.words[0])).toBe(false);
+    expect(getWordsOfChrist(verse).map(w => w.position)).toEqual([4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]);
+  });
+
+  it('should select words by speaker', () => {
+    expect(getWordsBySpeaker(verse, 'God').map(w => w.text)).toEqual(['I', 'said', 'Ye', 'are', 'gods']);
+    expect(getWordsBySpeaker(verse, 'Jesus').map(w => w.text)).toEqual(['Is', 'it', 'not', 'written', 'in', 'your', 'law']);
+  });
+});
+
+describe('divine name helpers', () => {
+  // Exod 3:14-15 as tagged by the importer from <divineName> markup
+  const exodus = {
+    words: [
+      { position: 1, text: 'And' },
+      { position: 2, text: 'God' },
+      { position: 3, text: 'the' },
+      { position: 4, text: 'LORD', metadata: { divine_name: true } },
+      { position: 5, text: 'God' },
+    ],
+  };
+
+  it('should select words marked as the divine name', () => {
+    expect(isDivineName(exodus.words[1])).toBe(false);
+    expect(isDivineName(exodus.words[3])).toBe(true);
+    expect(getDivineNames(exodus).map(w => w.position)).toEqual([4]);
+  });
+});
+
+describe('word groups', () => {
+  // Exod 3:14, where the source tags the whole of "I AM THAT I AM" with H1961
+  const exodus = importVerse('Exod.3.14', '<w lemma="strong:H0430">And God</w> <w lemma="strong:H0559">said</w> ' +
+    '<w lemma="strong:H04872">unto Moses</w>, <w lemma="strong:H01961">I AM THAT I AM</w>: <w lemma="strong:H0559">and he said</w>,');
+
+  it('should group words by their recorded source element', () => {
+    expect(getWordGroups(exodus).map(group => [group.id, group.words.map(w => w.text).join(' ')])).toEqual([
+      [1, 'And God'],
+      [3, 'said'],
+      [4, 'unto Moses'],
+      [6, 'I AM THAT I AM'],
+      [11, 'and he said'],
+    ]);
+  });
+
+  it('should find the group of a word', () => {
+    expect(getWordGroup(exodus, 8)?.words.map(w => w.position)).toEqual([6, 7, 8, 9, 10]);
+    expect(getWordGroup(exodus, 3)?.words.map(w => w.text)).toEqual(['said']);
+    expect(getWordGroup(exodus, 14)).toBeNull();
+  });
+
+  it('should infer groups for data without recorded groups', async () => {
+    const verse = await loadVerse('Exodus', 3, 14);
+    const groups = getWordGroups(verse).map(group => group.words.map(w => w.text).join(' '));
+
+    expect(groups.slice(0, 5)).toEqual(['And God', 'said', 'unto Moses,', 'I AM THAT I AM:', 'and he said,']);
+    // Same tags, but separated by punctuation
+    expect(groups[5]).toBe('Thus shalt thou say');
+  });
+});